@@ -0,0 +1,6 @@
+-- GitHub OAuth sign-in
+-- Accounts created through GitHub have an empty password and can only sign in via OAuth.
+
+ALTER TABLE users ADD COLUMN github_id TEXT;
+
+CREATE UNIQUE INDEX idx_users_github_id ON users(github_id);
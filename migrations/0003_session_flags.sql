@@ -0,0 +1,6 @@
+-- Session organisation flags for the sidebar
+
+ALTER TABLE chat_sessions ADD COLUMN pinned INTEGER DEFAULT 0;
+ALTER TABLE chat_sessions ADD COLUMN archived INTEGER DEFAULT 0;
+
+CREATE INDEX idx_sessions_user_updated ON chat_sessions(user_id, archived, pinned, updated_at);
@@ -0,0 +1,4 @@
+-- Rolling summary of turns that no longer fit in the model's context window
+
+ALTER TABLE chat_sessions ADD COLUMN summary TEXT;
+ALTER TABLE chat_sessions ADD COLUMN summary_message_count INTEGER DEFAULT 0;
@@ -0,0 +1,31 @@
+-- Full-text search over code snippets
+
+CREATE VIRTUAL TABLE IF NOT EXISTS code_snippets_fts USING fts5(
+  title,
+  description,
+  code,
+  tags,
+  content='code_snippets',
+  content_rowid='rowid'
+);
+
+CREATE TRIGGER code_snippets_ai AFTER INSERT ON code_snippets BEGIN
+  INSERT INTO code_snippets_fts(rowid, title, description, code, tags)
+  VALUES (new.rowid, new.title, new.description, new.code, new.tags);
+END;
+
+CREATE TRIGGER code_snippets_ad AFTER DELETE ON code_snippets BEGIN
+  INSERT INTO code_snippets_fts(code_snippets_fts, rowid, title, description, code, tags)
+  VALUES ('delete', old.rowid, old.title, old.description, old.code, old.tags);
+END;
+
+CREATE TRIGGER code_snippets_au AFTER UPDATE ON code_snippets BEGIN
+  INSERT INTO code_snippets_fts(code_snippets_fts, rowid, title, description, code, tags)
+  VALUES ('delete', old.rowid, old.title, old.description, old.code, old.tags);
+  INSERT INTO code_snippets_fts(rowid, title, description, code, tags)
+  VALUES (new.rowid, new.title, new.description, new.code, new.tags);
+END;
+
+INSERT INTO code_snippets_fts(code_snippets_fts) VALUES ('rebuild');
+
+CREATE INDEX idx_snippets_public ON code_snippets(is_public);
@@ -1,23 +1,61 @@
 // src/App.tsx
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useRef, useCallback } from 'react';
 import {
+  ArchiveIcon,
+  ArchiveRestoreIcon,
   ArrowUpIcon,
+  BarChart3Icon,
   CameraIcon,
   FileIcon,
+  FolderIcon,
+  GithubIcon,
   ImageIcon,
   Settings2Icon,
+  SquareIcon,
   CodeIcon,
   SearchIcon,
   MicIcon,
+  PencilIcon,
+  PinIcon,
   BotIcon,
   UserIcon,
   TrashIcon,
   CopyIcon,
-  CheckIcon
+  CheckIcon,
+  BookmarkIcon
 } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
+import type { FileUIPart, LanguageModelUsage, ToolUIPart } from 'ai';
+import {
+  PromptInput,
+  PromptInputAttachment,
+  PromptInputAttachments,
+  PromptInputTextarea,
+  usePromptInputAttachments
+} from '@/components/ai-elements/prompt-input';
+import {
+  Context,
+  ContextContent,
+  ContextContentBody,
+  ContextContentFooter,
+  ContextContentHeader,
+  ContextTrigger
+} from '@/components/ai-elements/context';
+import { Tool, ToolContent, ToolHeader, ToolInput, ToolOutput } from '@/components/ai-elements/tool';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { PcmPlayer, startClipRecording, startPcmCapture, type ClipRecording, type PcmCapture } from './audio';
+import FileBrowser from './FileBrowser';
+import UsageDashboard from './UsageDashboard';
+
+type ToolInvocation = {
+  id: string;
+  name: string;
+  state: ToolUIPart['state'];
+  input: unknown;
+  output?: unknown;
+  errorText?: string;
+};
 
 type Message = {
   id: string;
@@ -25,57 +63,270 @@ type Message = {
   content: string;
   timestamp: number;
   isStreaming?: boolean;
-  tools?: Array<{
-    name: string;
-    status: string;
-    result?: any;
-  }>;
+  truncated?: boolean;
+  tools?: ToolInvocation[];
+  attachments?: AttachmentSummary[];
+  images?: MessageImage[];
+  // Set when the server answered with a vision model instead of the selected one
+  fallbackFrom?: string;
+};
+
+type MessageImage = {
+  name: string;
+  url: string;
+};
+
+// Files the server read into the prompt for a user message
+type AttachmentSummary = {
+  key: string;
+  name: string;
+  tokens: number;
+  truncated: boolean;
+  error?: string;
+};
+
+type ChatStreamEvent =
+  | { type: 'attachments'; attachments: AttachmentSummary[] }
+  | { type: 'model-fallback'; model: string; requestedModel: string }
+  | { type: 'text-delta'; delta: string }
+  | { type: 'tool-call-start'; toolCallId: string; toolName: string; input: unknown }
+  | { type: 'tool-result'; toolCallId: string; toolName: string; output: unknown }
+  | { type: 'tool-error'; toolCallId: string; toolName: string; errorText: string }
+  | { type: 'finish'; usage: LanguageModelUsage; costUSD: number; context: ContextWindow }
+  | { type: 'error'; errorText: string };
+
+type ContextWindow = {
+  usedTokens: number;
+  maxTokens: number;
+};
+
+// Running totals for the current session, shown in the header's context meter
+type SessionUsage = {
+  usage: LanguageModelUsage;
+  costUSD: number;
+  context: ContextWindow | null;
 };
 
 type Session = {
   id: string;
   title: string;
-  lastMessage?: Message;
+  model?: string;
+  pinned?: boolean;
+  archived?: boolean;
+  updatedAt?: number;
+  lastMessage?: Pick<Message, 'role' | 'content' | 'timestamp'>;
   messageCount: number;
 };
 
 const API_BASE = '/api';
 
+// Parses the SSE frames written by /api/chat/stream
+async function readChatStream(response: Response, onEvent: (event: ChatStreamEvent) => void) {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    const frames = buffer.split('\n\n');
+    buffer = frames.pop() || '';
+
+    for (const frame of frames) {
+      const data = frame
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trim())
+        .join('\n');
+      if (data) {
+        onEvent(JSON.parse(data));
+      }
+    }
+  }
+}
+
+function applyStreamEvent(message: Message, event: ChatStreamEvent): Message {
+  switch (event.type) {
+    case 'model-fallback':
+      return { ...message, fallbackFrom: event.requestedModel };
+    case 'text-delta':
+      return { ...message, content: message.content + event.delta };
+    case 'tool-call-start':
+      return {
+        ...message,
+        tools: [
+          ...(message.tools || []),
+          { id: event.toolCallId, name: event.toolName, state: 'input-available', input: event.input }
+        ]
+      };
+    case 'tool-result':
+      return {
+        ...message,
+        tools: message.tools?.map(tool => tool.id === event.toolCallId
+          ? { ...tool, state: 'output-available', output: event.output }
+          : tool)
+      };
+    case 'tool-error':
+      return {
+        ...message,
+        tools: message.tools?.map(tool => tool.id === event.toolCallId
+          ? { ...tool, state: 'output-error', errorText: event.errorText }
+          : tool)
+      };
+    default:
+      return message;
+  }
+}
+
+function addUsage(current: SessionUsage | null, event: Extract<ChatStreamEvent, { type: 'finish' }>): SessionUsage {
+  const sum = (key: 'inputTokens' | 'outputTokens' | 'totalTokens') =>
+    (current?.usage[key] ?? 0) + (event.usage[key] ?? 0);
+
+  return {
+    usage: {
+      inputTokens: sum('inputTokens'),
+      outputTokens: sum('outputTokens'),
+      totalTokens: sum('totalTokens')
+    },
+    costUSD: (current?.costUSD ?? 0) + event.costUSD,
+    context: event.context
+  };
+}
+
+const formatTokens = (tokens?: number) => new Intl.NumberFormat('en-US', { notation: 'compact' }).format(tokens ?? 0);
+const formatCost = (cost: number) => new Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: 'USD',
+  maximumFractionDigits: cost < 0.01 ? 4 : 2
+}).format(cost);
+
+const formatRetryAfter = (seconds: number) => {
+  if (!seconds) return 'a moment';
+  if (seconds < 60) return `${seconds} seconds`;
+  if (seconds < 3600) return `${Math.ceil(seconds / 60)} minutes`;
+  return `${Math.ceil(seconds / 3600)} hours`;
+};
+
+// Mic audio is dropped once this much is waiting to be sent
+const VOICE_SEND_BUFFER_BYTES = 64 * 1024;
+
+// `deepgram` streams a live conversation; `workers-ai` is push-to-talk
+type VoiceProvider = 'deepgram' | 'workers-ai';
+
+const VOICE_PROVIDER_LABELS: Record<VoiceProvider, string> = {
+  'deepgram': 'Deepgram voice agent',
+  'workers-ai': 'Workers AI voice'
+};
+
+// Same limits the worker enforces on images sent with a message
+const MAX_IMAGES = 4;
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024;
+
+// Image picker and camera capture; both add to the PromptInput attachments
+function ImageInputButtons() {
+  const attachments = usePromptInputAttachments();
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={attachments.openFileDialog}
+        className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+        title="Attach images"
+      >
+        <ImageIcon className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+      </button>
+
+      <input
+        ref={cameraInputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        className="hidden"
+        onChange={(e) => {
+          if (e.target.files) attachments.add(e.target.files);
+          e.target.value = '';
+        }}
+      />
+      <button
+        type="button"
+        onClick={() => cameraInputRef.current?.click()}
+        className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+        title="Take a photo"
+      >
+        <CameraIcon className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+      </button>
+    </>
+  );
+}
+
+function SendButton({ hasText }: { hasText: boolean }) {
+  const attachments = usePromptInputAttachments();
+
+  return (
+    <button
+      type="submit"
+      disabled={!hasText && attachments.files.length === 0}
+      className="bg-[#c96442] text-white p-3 rounded-lg hover:bg-[#b55538] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+    >
+      <ArrowUpIcon className="w-5 h-5" />
+    </button>
+  );
+}
+
 function App() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [sessionId, setSessionId] = useState<string>('');
   const [sessions, setSessions] = useState<Session[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
   const [selectedModel, setSelectedModel] = useState('@cf/meta/llama-3.1-8b-instruct');
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [authMode, setAuthMode] = useState<'login' | 'signup'>('login');
   const [showSidebar, setShowSidebar] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+  const [showFiles, setShowFiles] = useState(false);
+  const [sessionUsage, setSessionUsage] = useState<SessionUsage | null>(null);
   const [useTools, setUseTools] = useState(true);
   const [isVoiceMode, setIsVoiceMode] = useState(false);
+  const [voiceProvider, setVoiceProvider] = useState<VoiceProvider>('workers-ai');
+  const [voiceProviders, setVoiceProviders] = useState<VoiceProvider[]>([]);
   const [copiedCode, setCopiedCode] = useState<string>('');
+  const [savedSnippet, setSavedSnippet] = useState<string>('');
+  const [historyCursor, setHistoryCursor] = useState<number | null>(null);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  // Scroll height before older messages were prepended, so the view doesn't jump
+  const prependScrollRef = useRef<{ height: number; top: number } | null>(null);
+  const activeSessionRef = useRef<string>('');
   const voiceWsRef = useRef<WebSocket | null>(null);
+  const voiceCleanupRef = useRef<(() => void) | null>(null);
+  const clipRecordingRef = useRef<ClipRecording | null>(null);
+  const speechRef = useRef<HTMLAudioElement | null>(null);
+  const chatAbortRef = useRef<AbortController | null>(null);
 
   const models = [
     { id: '@cf/meta/llama-3.1-8b-instruct', name: 'Llama 3.1 8B (Fast)' },
     { id: '@cf/meta/llama-3.1-70b-instruct', name: 'Llama 3.1 70B (Smart)' },
     { id: '@cf/meta/llama-3.3-70b-instruct-fp8-fast', name: 'Llama 3.3 70B (Fastest)' },
     { id: '@hf/nousresearch/hermes-2-pro-mistral-7b', name: 'Hermes 2 Pro' },
-    { id: '@cf/deepseek-ai/deepseek-r1-distill-qwen-32b', name: 'DeepSeek R1' }
+    { id: '@cf/deepseek-ai/deepseek-r1-distill-qwen-32b', name: 'DeepSeek R1' },
+    { id: '@cf/meta/llama-3.2-11b-vision-instruct', name: 'Llama 3.2 11B Vision' }
   ];
 
-  useEffect(() => {
-    const token = localStorage.getItem('token');
-    if (token) {
-      setIsAuthenticated(true);
-      loadSessions();
-      createNewSession();
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current;
+    if (prependScrollRef.current && container) {
+      const { height, top } = prependScrollRef.current;
+      container.scrollTop = container.scrollHeight - height + top;
+      prependScrollRef.current = null;
+      return;
     }
-  }, []);
-
-  useEffect(() => {
     scrollToBottom();
   }, [messages]);
 
@@ -106,6 +357,7 @@ function App() {
         localStorage.setItem('userId', data.userId);
         setIsAuthenticated(true);
         loadSessions();
+        loadSettings();
         createNewSession();
       } else {
         alert(data.error || 'Authentication failed');
@@ -116,9 +368,81 @@ function App() {
     }
   };
 
-  const loadSessions = async () => {
+  const clearAuth = useCallback(() => {
+    localStorage.removeItem('token');
+    localStorage.removeItem('userId');
+    setIsAuthenticated(false);
+  }, []);
+
+  // Resolves to false if the user has to sign in again
+  const refreshToken = useCallback(async () => {
+    const sentToken = localStorage.getItem('token');
+    try {
+      const response = await fetch(`${API_BASE}/auth/refresh`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${sentToken}`
+        }
+      });
+      
+      if (response.status === 401) {
+        // Another tab may have rotated this token already and stored the new one
+        if (localStorage.getItem('token') === sentToken) {
+          clearAuth();
+          return false;
+        }
+        return true;
+      }
+      
+      const data = await response.json();
+      if (data.token) {
+        localStorage.setItem('token', data.token);
+      }
+    } catch (error) {
+      console.error('Token refresh error:', error);
+    }
+    return true;
+  }, [clearAuth]);
+
+  const logout = async () => {
     try {
-      const response = await fetch(`${API_BASE}/sessions`, {
+      await fetch(`${API_BASE}/auth/logout`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+    } catch (error) {
+      console.error('Logout error:', error);
+    } finally {
+      clearAuth();
+    }
+  };
+
+  // Linking needs the signed-in session, so the OAuth redirect is requested
+  // over fetch instead of a plain link
+  const connectGitHub = async () => {
+    try {
+      const response = await fetch(`${API_BASE}/auth/github/link`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Could not connect GitHub');
+      }
+      window.location.href = data.url;
+    } catch (error) {
+      console.error('Failed to connect GitHub:', error);
+      alert(error instanceof Error && error.message ? error.message : 'Could not connect GitHub');
+    }
+  };
+
+  const fetchSessions = useCallback(async (archived: boolean) => {
+    try {
+      const response = await fetch(`${API_BASE}/sessions${archived ? '?archived=true' : ''}`, {
         headers: {
           'Authorization': `Bearer ${localStorage.getItem('token')}`
         }
@@ -128,12 +452,188 @@ function App() {
     } catch (error) {
       console.error('Failed to load sessions:', error);
     }
+  }, []);
+
+  const loadSessions = (archived = showArchived) => fetchSessions(archived);
+
+  const loadSettings = useCallback(async () => {
+    try {
+      const response = await fetch(`${API_BASE}/settings`, {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error);
+      }
+      setVoiceProvider(data.voice.provider);
+      setVoiceProviders(data.voice.providers);
+    } catch (error) {
+      console.error('Failed to load settings:', error);
+    }
+  }, []);
+
+  const changeVoiceProvider = async (provider: VoiceProvider) => {
+    if (isVoiceMode) {
+      stopVoiceMode();
+    }
+    
+    try {
+      const response = await fetch(`${API_BASE}/settings`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        },
+        body: JSON.stringify({ voiceProvider: provider })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error);
+      }
+      setVoiceProvider(data.voice.provider);
+    } catch (error) {
+      console.error('Failed to save voice setting:', error);
+      alert('Failed to save voice setting');
+    }
   };
 
-  const createNewSession = () => {
-    const newSessionId = `session-${Date.now()}`;
+  const createNewSession = useCallback(() => {
+    const newSessionId = crypto.randomUUID();
+    activeSessionRef.current = newSessionId;
     setSessionId(newSessionId);
     setMessages([]);
+    setHistoryCursor(null);
+    setSessionUsage(null);
+    setShowUsage(false);
+  }, []);
+
+  // Runs once on mount: every dependency is a stable callback
+  useEffect(() => {
+    // GitHub sign-in redirects back with the session in the URL fragment
+    const params = new URLSearchParams(window.location.hash.slice(1));
+    if (params.get('token')) {
+      localStorage.setItem('token', params.get('token')!);
+      localStorage.setItem('userId', params.get('userId') || '');
+      window.history.replaceState(null, '', window.location.pathname);
+    } else if (params.get('auth_error')) {
+      window.history.replaceState(null, '', window.location.pathname);
+      alert(params.get('auth_error') === 'account_exists'
+        ? 'An account with this email already exists. Sign in with your password and use "Connect GitHub" to link it.'
+        : `GitHub sign-in failed: ${params.get('auth_error')}`);
+    }
+
+    const token = localStorage.getItem('token');
+    if (token) {
+      setIsAuthenticated(true);
+      createNewSession();
+      // Refreshing revokes the stored token, so nothing else may use it until this is done
+      refreshToken().then((signedIn) => {
+        if (signedIn) {
+          fetchSessions(false);
+          loadSettings();
+        }
+      });
+    }
+  }, [createNewSession, refreshToken, fetchSessions, loadSettings]);
+
+  const fetchSessionMessages = async (id: string, before?: number) => {
+    const params = new URLSearchParams({ limit: '50' });
+    if (before !== undefined) {
+      params.set('before', String(before));
+    }
+    
+    const response = await fetch(`${API_BASE}/sessions/${id}/messages?${params}`, {
+      headers: {
+        'Authorization': `Bearer ${localStorage.getItem('token')}`
+      }
+    });
+    const data = await response.json();
+    
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to load messages');
+    }
+    
+    return data as { messages: Message[]; cursor: number | null } & SessionUsage;
+  };
+
+  const selectSession = async (id: string) => {
+    setShowUsage(false);
+    if (id === sessionId) return;
+    
+    activeSessionRef.current = id;
+    setSessionId(id);
+    setMessages([]);
+    setHistoryCursor(null);
+    setSessionUsage(null);
+    setIsLoadingHistory(true);
+    
+    try {
+      const data = await fetchSessionMessages(id);
+      // Ignore the response if the user switched sessions while it loaded
+      if (activeSessionRef.current !== id) return;
+      setMessages(data.messages);
+      setHistoryCursor(data.cursor);
+      setSessionUsage({ usage: data.usage, costUSD: data.costUSD, context: data.context });
+    } catch (error) {
+      console.error('Failed to load conversation:', error);
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  };
+
+  const loadOlderMessages = async () => {
+    if (historyCursor === null || isLoadingHistory) return;
+    
+    const id = sessionId;
+    setIsLoadingHistory(true);
+    
+    try {
+      const data = await fetchSessionMessages(id, historyCursor);
+      if (activeSessionRef.current !== id) return;
+      
+      const container = messagesContainerRef.current;
+      if (container) {
+        prependScrollRef.current = { height: container.scrollHeight, top: container.scrollTop };
+      }
+      setMessages(prev => [...data.messages, ...prev]);
+      setHistoryCursor(data.cursor);
+    } catch (error) {
+      console.error('Failed to load older messages:', error);
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  };
+
+  const updateSession = async (id: string, changes: Partial<Pick<Session, 'title' | 'pinned' | 'archived'>>) => {
+    try {
+      const response = await fetch(`${API_BASE}/sessions/${id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        },
+        body: JSON.stringify(changes)
+      });
+      
+      const data = await response.json();
+      if (!data.success) {
+        alert(data.error || 'Failed to update session');
+        return;
+      }
+      
+      loadSessions();
+    } catch (error) {
+      console.error('Failed to update session:', error);
+    }
+  };
+
+  const renameSession = (session: Session) => {
+    const title = window.prompt('Rename chat', session.title || '');
+    if (title && title.trim() && title !== session.title) {
+      updateSession(session.id, { title: title.trim() });
+    }
   };
 
   const deleteSession = async (id: string) => {
@@ -153,23 +653,62 @@ function App() {
     }
   };
 
-  const sendMessage = async (content: string) => {
-    if (!content.trim() || isLoading) return;
+  // Images go to R2 first; the chat request only carries their keys
+  const uploadImages = async (files: FileUIPart[]): Promise<string[]> => {
+    if (files.length === 0) return [];
+
+    const formData = new FormData();
+    for (const file of files) {
+      const blob = await (await fetch(file.url)).blob();
+      formData.append('file', blob, file.filename || 'image');
+    }
+
+    const response = await fetch(`${API_BASE}/files/upload`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${localStorage.getItem('token')}`
+      },
+      body: formData
+    });
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(`Could not attach images: ${data.error || 'upload failed'}`);
+    }
+    return data.files.map((file: { key: string }) => file.key);
+  };
+
+  // Resolves with the assistant's answer, or undefined if it didn't complete
+  const sendMessage = async (content: string, files: FileUIPart[] = []): Promise<string | undefined> => {
+    if ((!content.trim() && files.length === 0) || isLoading) return;
 
     const userMessage: Message = {
       id: `msg-${Date.now()}`,
       role: 'user',
       content,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      ...(files.length > 0 && {
+        images: files.map(file => ({ name: file.filename || 'image', url: file.url }))
+      })
     };
 
     setMessages(prev => [...prev, userMessage]);
     setInput('');
     setIsLoading(true);
 
+    const assistantId = `msg-${Date.now()}-assistant`;
+    const updateAssistant = (update: (message: Message) => Message) => {
+      setMessages(prev => prev.map(m => m.id === assistantId ? update(m) : m));
+    };
+
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    let reply = '';
+
     try {
-      const response = await fetch(`${API_BASE}/chat`, {
+      const images = await uploadImages(files);
+      const response = await fetch(`${API_BASE}/chat/stream`, {
         method: 'POST',
+        signal: controller.signal,
         headers: {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${localStorage.getItem('token')}`
@@ -178,34 +717,110 @@ function App() {
           message: content,
           sessionId,
           model: selectedModel,
-          useTools
+          useTools,
+          ...(images.length > 0 && { images })
         })
       });
 
-      const data = await response.json();
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        if (response.status === 429) {
+          throw new Error(`Usage limit reached (${data.limit}). Try again in ${formatRetryAfter(Number(response.headers.get('Retry-After')))}.`);
+        }
+        throw new Error(data.error || 'Chat request failed');
+      }
 
-      const assistantMessage: Message = {
-        id: `msg-${Date.now()}-assistant`,
+      setMessages(prev => [...prev, {
+        id: assistantId,
         role: 'assistant',
-        content: data.response,
+        content: '',
         timestamp: Date.now(),
-        tools: data.tools
-      };
+        isStreaming: true
+      }]);
 
-      setMessages(prev => [...prev, assistantMessage]);
+      await readChatStream(response, (event) => {
+        if (event.type === 'error') {
+          updateAssistant(m => ({ ...m, content: `${m.content}\n\n**Error:** ${event.errorText}` }));
+          return;
+        }
+        if (event.type === 'finish') {
+          setSessionUsage(prev => addUsage(prev, event));
+        }
+        if (event.type === 'attachments') {
+          setMessages(prev => prev.map(m => m.id === userMessage.id ? { ...m, attachments: event.attachments } : m));
+          return;
+        }
+        if (event.type === 'text-delta') {
+          reply += event.delta;
+        }
+        updateAssistant(m => applyStreamEvent(m, event));
+      });
+
+      loadSessions();
+      return reply;
     } catch (error) {
-      console.error('Send message error:', error);
-      alert('Failed to send message. Please try again.');
+      if (controller.signal.aborted) {
+        // The server keeps whatever was generated so far, marked as truncated
+        updateAssistant(m => ({ ...m, truncated: true }));
+        loadSessions();
+      } else {
+        console.error('Send message error:', error);
+        alert(error instanceof Error && /^(Usage limit|Could not attach)/.test(error.message)
+          ? error.message
+          : 'Failed to send message. Please try again.');
+      }
     } finally {
+      updateAssistant(m => ({ ...m, isStreaming: false }));
+      chatAbortRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const stopGeneration = () => {
+    chatAbortRef.current?.abort();
+  };
+
   const startVoiceMode = async () => {
+    const voiceSessionId = sessionId;
+    let capture: PcmCapture | null = null;
+    let stopped = false;
+    // Assistant message collecting tool calls until the agent's next reply
+    let toolMessageId: string | null = null;
+    const player = new PcmPlayer();
+
+    const cleanup = () => {
+      if (stopped) return;
+      stopped = true;
+      capture?.stop();
+      player.close();
+      voiceWsRef.current = null;
+      voiceCleanupRef.current = null;
+      setIsVoiceMode(false);
+      loadSessions();
+    };
+
     try {
+      // WebSockets can't carry the Authorization header, so trade it for a one-time ticket
+      const ticketResponse = await fetch(`${API_BASE}/voice/ticket`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        },
+        body: JSON.stringify({ sessionId: voiceSessionId })
+      });
+      const { ticket, protocol, error } = await ticketResponse.json();
+      if (!ticketResponse.ok) {
+        throw new Error(error);
+      }
+
       const ws = new WebSocket(
-        `${window.location.protocol === 'https:' ? 'wss:' : 'ws:'}//${window.location.host}/api/voice/connect`
+        `${window.location.protocol === 'https:' ? 'wss:' : 'ws:'}//${window.location.host}/api/voice/connect`,
+        [protocol, ticket]
       );
+      ws.binaryType = 'arraybuffer';
+      voiceWsRef.current = ws;
+      voiceCleanupRef.current = cleanup;
 
       ws.onopen = () => {
         console.log('Voice connection established');
@@ -213,49 +828,149 @@ function App() {
       };
 
       ws.onmessage = (event) => {
+        if (typeof event.data !== 'string') {
+          // Agent speech as 24 kHz linear16 audio
+          player.push(event.data);
+          return;
+        }
         const data = JSON.parse(event.data);
-        
+        const isCurrentSession = activeSessionRef.current === voiceSessionId;
+
         if (data.type === 'UserStartedSpeaking') {
-          // Visual feedback
-        } else if (data.type === 'audio') {
-          // Play audio response
+          // Barge-in: stop talking as soon as the user does
+          player.interrupt();
+        } else if (data.type === 'ConversationText' && data.content && isCurrentSession) {
+          const role = data.role === 'user' ? 'user' : 'assistant';
+          const targetId = role === 'assistant' ? toolMessageId : null;
+          if (targetId) {
+            toolMessageId = null;
+            setMessages(prev => prev.map(m => m.id === targetId ? { ...m, content: data.content } : m));
+          } else {
+            setMessages(prev => [...prev, {
+              id: `msg-${Date.now()}-${prev.length}`,
+              role,
+              content: data.content,
+              timestamp: Date.now()
+            }]);
+          }
+        } else if ((data.type === 'tool-call-start' || data.type === 'tool-result' || data.type === 'tool-error') && isCurrentSession) {
+          // The worker runs the agent's function calls and reports them like chat tool calls
+          if (!toolMessageId) {
+            const id = `msg-${Date.now()}-tools`;
+            toolMessageId = id;
+            setMessages(prev => [...prev, { id, role: 'assistant', content: '', timestamp: Date.now() }]);
+          }
+          const targetId = toolMessageId;
+          setMessages(prev => prev.map(m => m.id === targetId ? applyStreamEvent(m, data) : m));
+        } else if (data.type === 'Error') {
+          console.error('Voice agent error:', data.description);
         }
       };
 
       ws.onerror = (error) => {
         console.error('Voice WebSocket error:', error);
-        setIsVoiceMode(false);
       };
 
-      ws.onclose = () => {
-        setIsVoiceMode(false);
-      };
+      ws.onclose = cleanup;
 
-      voiceWsRef.current = ws;
-
-      // Request microphone access
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      const mediaRecorder = new MediaRecorder(stream);
-      
-      mediaRecorder.ondataavailable = (event) => {
-        if (ws.readyState === WebSocket.OPEN) {
-          ws.send(event.data);
+      const started = await startPcmCapture((frame) => {
+        // Drop audio rather than queue it while the connection is backed up
+        if (ws.readyState === WebSocket.OPEN && ws.bufferedAmount < VOICE_SEND_BUFFER_BYTES) {
+          ws.send(frame);
         }
-      };
-
-      mediaRecorder.start(100); // Send chunks every 100ms
+      });
+      if (stopped) {
+        // The connection ended while the microphone was starting
+        started.stop();
+      } else {
+        capture = started;
+      }
     } catch (error) {
       console.error('Voice mode error:', error);
-      alert('Failed to start voice mode. Please check microphone permissions.');
+      voiceWsRef.current?.close();
+      cleanup();
+      alert(error instanceof DOMException
+        ? 'Failed to start voice mode. Please check microphone permissions.'
+        : 'Failed to start voice mode. Please try again.');
     }
   };
 
   const stopVoiceMode = () => {
-    if (voiceWsRef.current) {
-      voiceWsRef.current.close();
-      voiceWsRef.current = null;
+    voiceWsRef.current?.close(1000, 'Voice mode stopped');
+    voiceCleanupRef.current?.();
+    clipRecordingRef.current?.cancel();
+    clipRecordingRef.current = null;
+    setIsVoiceMode(false);
+  };
+
+  const stopSpeaking = () => {
+    if (speechRef.current) {
+      speechRef.current.pause();
+      URL.revokeObjectURL(speechRef.current.src);
+      speechRef.current = null;
+    }
+  };
+
+  // Workers AI voice: the first click starts recording, the second sends the clip
+  // for transcription, asks the normal chat route and reads the answer aloud
+  const toggleVoiceClip = async () => {
+    if (!clipRecordingRef.current) {
+      stopSpeaking();
+      try {
+        clipRecordingRef.current = await startClipRecording();
+        setIsVoiceMode(true);
+      } catch (error) {
+        console.error('Voice recording error:', error);
+        alert('Failed to start recording. Please check microphone permissions.');
+      }
+      return;
     }
+
+    const recording = clipRecordingRef.current;
+    clipRecordingRef.current = null;
     setIsVoiceMode(false);
+
+    try {
+      const formData = new FormData();
+      formData.append('audio', await recording.stop(), 'voice.wav');
+      const transcribeResponse = await fetch(`${API_BASE}/voice/transcribe`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        },
+        body: formData
+      });
+      const { text, error } = await transcribeResponse.json();
+      if (!transcribeResponse.ok) {
+        throw new Error(error);
+      }
+      if (!text) return;
+
+      const reply = await sendMessage(text);
+      if (!reply) return;
+
+      const speakResponse = await fetch(`${API_BASE}/voice/speak`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        },
+        body: JSON.stringify({ text: reply })
+      });
+      if (!speakResponse.ok) {
+        const data = await speakResponse.json().catch(() => ({}));
+        throw new Error(data.error);
+      }
+
+      stopSpeaking();
+      const audio = new Audio(URL.createObjectURL(await speakResponse.blob()));
+      audio.onended = stopSpeaking;
+      speechRef.current = audio;
+      await audio.play();
+    } catch (error) {
+      console.error('Voice message error:', error);
+      alert(error instanceof Error && error.message ? error.message : 'Voice message failed. Please try again.');
+    }
   };
 
   const copyCode = (code: string) => {
@@ -264,6 +979,33 @@ function App() {
     setTimeout(() => setCopiedCode(''), 2000);
   };
 
+  const saveSnippet = async (code: string, language: string) => {
+    const title = window.prompt('Snippet title');
+    if (!title || !title.trim()) return;
+    
+    try {
+      const response = await fetch(`${API_BASE}/snippets`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        },
+        body: JSON.stringify({ title: title.trim(), code, language })
+      });
+      
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error);
+      }
+      
+      setSavedSnippet(code);
+      setTimeout(() => setSavedSnippet(''), 2000);
+    } catch (error) {
+      console.error('Failed to save snippet:', error);
+      alert('Failed to save snippet');
+    }
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -284,6 +1026,8 @@ function App() {
       
       if (data.success) {
         setInput(prev => `${prev}\n[File uploaded: ${file.name}](${data.url})`);
+      } else {
+        alert(data.error || 'Failed to upload file');
       }
     } catch (error) {
       console.error('File upload error:', error);
@@ -358,6 +1102,20 @@ function App() {
               {authMode === 'login' ? 'Login' : 'Create Account'}
             </button>
           </form>
+
+          <div className="flex items-center gap-3 my-6">
+            <div className="flex-1 h-px bg-gray-200 dark:bg-gray-700" />
+            <span className="text-xs text-gray-500 dark:text-gray-400">or</span>
+            <div className="flex-1 h-px bg-gray-200 dark:bg-gray-700" />
+          </div>
+
+          <a
+            href={`${API_BASE}/auth/github`}
+            className="w-full flex items-center justify-center gap-2 py-3 rounded-lg font-medium border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+          >
+            <GithubIcon className="w-5 h-5" />
+            Continue with GitHub
+          </a>
         </div>
       </div>
     );
@@ -384,21 +1142,55 @@ function App() {
               className={`p-3 rounded-lg cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors group ${
                 sessionId === session.id ? 'bg-gray-100 dark:bg-gray-700' : ''
               }`}
-              onClick={() => setSessionId(session.id)}
+              onClick={() => selectSession(session.id)}
             >
-              <div className="flex items-center justify-between">
-                <span className="text-sm font-medium text-gray-900 dark:text-white truncate">
-                  {session.title || 'New Chat'}
+              <div className="flex items-center justify-between gap-2">
+                <span className="flex items-center gap-1 text-sm font-medium text-gray-900 dark:text-white truncate">
+                  {session.pinned && <PinIcon className="w-3 h-3 flex-shrink-0 text-[#c96442]" />}
+                  <span className="truncate">{session.title || 'New Chat'}</span>
                 </span>
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    deleteSession(session.id);
-                  }}
-                  className="opacity-0 group-hover:opacity-100 transition-opacity"
-                >
-                  <TrashIcon className="w-4 h-4 text-red-500" />
-                </button>
+                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      renameSession(session);
+                    }}
+                    title="Rename"
+                  >
+                    <PencilIcon className="w-4 h-4 text-gray-500" />
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      updateSession(session.id, { pinned: !session.pinned });
+                    }}
+                    title={session.pinned ? 'Unpin' : 'Pin'}
+                  >
+                    <PinIcon className={`w-4 h-4 ${session.pinned ? 'text-[#c96442]' : 'text-gray-500'}`} />
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      updateSession(session.id, { archived: !session.archived });
+                    }}
+                    title={session.archived ? 'Unarchive' : 'Archive'}
+                  >
+                    {session.archived ? (
+                      <ArchiveRestoreIcon className="w-4 h-4 text-gray-500" />
+                    ) : (
+                      <ArchiveIcon className="w-4 h-4 text-gray-500" />
+                    )}
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      deleteSession(session.id);
+                    }}
+                    title="Delete"
+                  >
+                    <TrashIcon className="w-4 h-4 text-red-500" />
+                  </button>
+                </div>
               </div>
               <span className="text-xs text-gray-500 dark:text-gray-400">
                 {session.messageCount} messages
@@ -407,24 +1199,125 @@ function App() {
           ))}
         </div>
 
-        <div className="p-4 border-t border-gray-200 dark:border-gray-700">
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 space-y-2">
           <button
             onClick={() => {
-              localStorage.removeItem('token');
-              localStorage.removeItem('userId');
-              setIsAuthenticated(false);
+              setShowArchived(!showArchived);
+              loadSessions(!showArchived);
             }}
             className="w-full text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+          >
+            {showArchived ? 'Show active chats' : 'Show archived chats'}
+          </button>
+          <button
+            onClick={() => {
+              setShowUsage(false);
+              setShowFiles(!showFiles);
+            }}
+            className="w-full text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors flex items-center justify-center gap-2"
+          >
+            <FolderIcon className="w-4 h-4" />
+            Files
+          </button>
+          {voiceProviders.length > 1 && (
+            <select
+              value={voiceProvider}
+              onChange={(e) => changeVoiceProvider(e.target.value as VoiceProvider)}
+              className="w-full px-2 py-1 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm text-gray-600 dark:text-gray-300 focus:ring-2 focus:ring-[#c96442] outline-none"
+              title="Voice mode"
+            >
+              {voiceProviders.map((provider) => (
+                <option key={provider} value={provider}>
+                  {VOICE_PROVIDER_LABELS[provider]}
+                </option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={() => setShowUsage(!showUsage)}
+            className="w-full text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors flex items-center justify-center gap-2"
+          >
+            <BarChart3Icon className="w-4 h-4" />
+            {showUsage ? 'Back to chat' : 'Usage'}
+          </button>
+          <button
+            onClick={connectGitHub}
+            className="w-full text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+          >
+            Connect GitHub
+          </button>
+          <button
+            onClick={logout}
+            className="w-full text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
           >
             Logout
           </button>
         </div>
       </div>
 
+      {showUsage && <UsageDashboard onClose={() => setShowUsage(false)} />}
+
       {/* Main Chat Area */}
-      <div className="flex-1 flex flex-col">
+      <div className={`${showUsage ? 'hidden' : 'flex'} relative flex-1 flex-col`}>
+        {showFiles && (
+          <FileBrowser
+            onClose={() => setShowFiles(false)}
+            onInsert={(file) => {
+              setInput(prev => `${prev}${prev ? '\n' : ''}[File: ${file.name}](${file.url})`);
+              setShowFiles(false);
+            }}
+          />
+        )}
+
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4 px-4 py-2 border-b border-gray-200 dark:border-gray-700">
+          <span className="text-sm font-medium text-gray-900 dark:text-white truncate">
+            {sessions.find(s => s.id === sessionId)?.title || 'New Chat'}
+          </span>
+          {sessionUsage?.context && (
+            <Context
+              usedTokens={sessionUsage.context.usedTokens}
+              maxTokens={sessionUsage.context.maxTokens}
+              usage={sessionUsage.usage}
+            >
+              <ContextTrigger />
+              <ContextContent align="end">
+                <ContextContentHeader />
+                <ContextContentBody className="space-y-1 text-xs">
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">Input</span>
+                    <span>{formatTokens(sessionUsage.usage.inputTokens)}</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">Output</span>
+                    <span>{formatTokens(sessionUsage.usage.outputTokens)}</span>
+                  </div>
+                </ContextContentBody>
+                <ContextContentFooter>
+                  <span className="text-muted-foreground">Estimated session cost</span>
+                  <span>{formatCost(sessionUsage.costUSD)}</span>
+                </ContextContentFooter>
+              </ContextContent>
+            </Context>
+          )}
+        </div>
+
         {/* Messages */}
-        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        <div
+          ref={messagesContainerRef}
+          onScroll={(e) => {
+            if (e.currentTarget.scrollTop < 100) {
+              loadOlderMessages();
+            }
+          }}
+          className="flex-1 overflow-y-auto p-4 space-y-4"
+        >
+          {isLoadingHistory && (
+            <div className="text-center text-xs text-gray-500 dark:text-gray-400">
+              Loading messages...
+            </div>
+          )}
+          
           {messages.map((message) => (
             <div
               key={message.id}
@@ -448,6 +1341,26 @@ function App() {
                     ? 'bg-[#f0eee6] dark:bg-gray-700 text-gray-900 dark:text-white rounded-2xl px-4 py-3'
                     : ''
                 }`}>
+                  {message.images && message.images.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mb-2">
+                      {message.images.map((image) => (
+                        <a key={image.url} href={image.url} target="_blank" rel="noreferrer">
+                          <img
+                            src={image.url}
+                            alt={image.name}
+                            className="max-h-64 max-w-full rounded-lg object-contain"
+                          />
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                  
+                  {message.fallbackFrom && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                      Answered by Llama 3.2 11B Vision, since {models.find(m => m.id === message.fallbackFrom)?.name || message.fallbackFrom} can't see images
+                    </p>
+                  )}
+                  
                   {message.role === 'assistant' ? (
                     <div className="prose dark:prose-invert max-w-none">
                       <ReactMarkdown
@@ -458,16 +1371,30 @@ function App() {
                             
                             return !inline && match ? (
                               <div className="relative group">
-                                <button
-                                  onClick={() => copyCode(codeString)}
-                                  className="absolute right-2 top-2 p-2 bg-gray-700 hover:bg-gray-600 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity"
-                                >
-                                  {copiedCode === codeString ? (
-                                    <CheckIcon className="w-4 h-4 text-green-400" />
-                                  ) : (
-                                    <CopyIcon className="w-4 h-4 text-gray-300" />
-                                  )}
-                                </button>
+                                <div className="absolute right-2 top-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                  <button
+                                    onClick={() => saveSnippet(codeString, match[1])}
+                                    className="p-2 bg-gray-700 hover:bg-gray-600 rounded-lg"
+                                    title="Save as snippet"
+                                  >
+                                    {savedSnippet === codeString ? (
+                                      <CheckIcon className="w-4 h-4 text-green-400" />
+                                    ) : (
+                                      <BookmarkIcon className="w-4 h-4 text-gray-300" />
+                                    )}
+                                  </button>
+                                  <button
+                                    onClick={() => copyCode(codeString)}
+                                    className="p-2 bg-gray-700 hover:bg-gray-600 rounded-lg"
+                                    title="Copy code"
+                                  >
+                                    {copiedCode === codeString ? (
+                                      <CheckIcon className="w-4 h-4 text-green-400" />
+                                    ) : (
+                                      <CopyIcon className="w-4 h-4 text-gray-300" />
+                                    )}
+                                  </button>
+                                </div>
                                 <SyntaxHighlighter
                                   style={vscDarkPlus}
                                   language={match[1]}
@@ -487,16 +1414,49 @@ function App() {
                       >
                         {message.content}
                       </ReactMarkdown>
+                      {message.isStreaming && (
+                        <span className="inline-block w-2 h-4 bg-gray-400 animate-pulse align-middle" />
+                      )}
+                      {message.truncated && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400 not-prose">
+                          Response stopped
+                        </p>
+                      )}
                     </div>
-                  ) : (
+                  ) : message.content && (
                     <p className="whitespace-pre-wrap">{message.content}</p>
                   )}
                   
                   {message.tools && (
-                    <div className="mt-2 space-y-1">
-                      {message.tools.map((tool, idx) => (
-                        <div key={idx} className="text-xs text-gray-500 dark:text-gray-400">
-                          🔧 {tool.name}: {tool.status}
+                    <div className="mt-2">
+                      {message.tools.map((tool) => (
+                        <Tool key={tool.id} defaultOpen={tool.state === 'output-error'}>
+                          <ToolHeader
+                            type={`tool-${tool.name}`}
+                            state={tool.state}
+                          />
+                          <ToolContent>
+                            <ToolInput input={tool.input} />
+                            <ToolOutput output={tool.output} errorText={tool.errorText} />
+                          </ToolContent>
+                        </Tool>
+                      ))}
+                    </div>
+                  )}
+                  
+                  {message.attachments && message.attachments.length > 0 && (
+                    <div className="mt-2 space-y-1 text-xs text-gray-500 dark:text-gray-400">
+                      {message.attachments.map((attachment) => (
+                        <div key={attachment.key} className="flex items-center gap-1">
+                          <FileIcon className="w-3 h-3 flex-shrink-0" />
+                          <span className="truncate">{attachment.name}</span>
+                          <span className="flex-shrink-0">
+                            {attachment.error
+                              ? `· could not be read: ${attachment.error}`
+                              : attachment.truncated
+                                ? `· truncated to ~${formatTokens(attachment.tokens)} tokens`
+                                : `· ${formatTokens(attachment.tokens)} tokens`}
+                          </span>
                         </div>
                       ))}
                     </div>
@@ -506,7 +1466,7 @@ function App() {
             </div>
           ))}
           
-          {isLoading && (
+          {isLoading && !messages.some(m => m.isStreaming) && (
             <div className="flex gap-4">
               <div className="w-8 h-8 rounded-full bg-gray-200 dark:bg-gray-700 flex items-center justify-center">
                 <BotIcon className="w-5 h-5 text-gray-700 dark:text-gray-300 animate-pulse" />
@@ -525,18 +1485,23 @@ function App() {
         {/* Input Area */}
         <div className="p-4 border-t border-gray-200 dark:border-gray-700">
           <div className="max-w-4xl mx-auto">
-            <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-4">
-              <textarea
+            <PromptInput
+              accept="image/*"
+              multiple
+              maxFiles={MAX_IMAGES}
+              maxFileSize={MAX_IMAGE_SIZE}
+              onError={(error) => 'code' in error && alert(error.message)}
+              onSubmit={({ files }) => sendMessage(input, files)}
+              className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-4 border-0 divide-y-0"
+            >
+              <PromptInputAttachments className="-mx-3 -mt-3">
+                {(attachment) => <PromptInputAttachment data={attachment} />}
+              </PromptInputAttachments>
+              <PromptInputTextarea
                 value={input}
                 onChange={(e) => setInput(e.target.value)}
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter' && !e.shiftKey) {
-                    e.preventDefault();
-                    sendMessage(input);
-                  }
-                }}
                 placeholder="Ask me to write Cloudflare Workers code..."
-                className="w-full bg-transparent text-gray-900 dark:text-white outline-none resize-none"
+                className="p-0 min-h-0 text-base text-gray-900 dark:text-white"
                 rows={3}
                 disabled={isLoading}
               />
@@ -553,16 +1518,12 @@ function App() {
                     <FileIcon className="w-5 h-5 text-gray-600 dark:text-gray-400" />
                   </label>
                   
-                  <button className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors">
-                    <ImageIcon className="w-5 h-5 text-gray-600 dark:text-gray-400" />
-                  </button>
-                  
-                  <button className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors">
-                    <CameraIcon className="w-5 h-5 text-gray-600 dark:text-gray-400" />
-                  </button>
+                  <ImageInputButtons />
                   
                   <button
-                    onClick={isVoiceMode ? stopVoiceMode : startVoiceMode}
+                    type="button"
+                    onClick={voiceProvider === 'workers-ai' ? toggleVoiceClip : isVoiceMode ? stopVoiceMode : startVoiceMode}
+                    title={voiceProvider === 'workers-ai' ? (isVoiceMode ? 'Send voice message' : 'Record voice message') : VOICE_PROVIDER_LABELS.deepgram}
                     className={`p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors ${
                       isVoiceMode ? 'bg-red-100 dark:bg-red-900' : ''
                     }`}
@@ -573,6 +1534,7 @@ function App() {
                   </button>
                   
                   <button
+                    type="button"
                     onClick={() => setUseTools(!useTools)}
                     className={`p-2 rounded-lg transition-colors ${
                       useTools
@@ -598,16 +1560,21 @@ function App() {
                     ))}
                   </select>
 
-                  <button
-                    onClick={() => sendMessage(input)}
-                    disabled={!input.trim() || isLoading}
-                    className="bg-[#c96442] text-white p-3 rounded-lg hover:bg-[#b55538] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                  >
-                    <ArrowUpIcon className="w-5 h-5" />
-                  </button>
+                  {isLoading ? (
+                    <button
+                      type="button"
+                      onClick={stopGeneration}
+                      className="bg-gray-700 text-white p-3 rounded-lg hover:bg-gray-600 transition-colors"
+                      title="Stop generating"
+                    >
+                      <SquareIcon className="w-5 h-5" />
+                    </button>
+                  ) : (
+                    <SendButton hasText={Boolean(input.trim())} />
+                  )}
                 </div>
               </div>
-            </div>
+            </PromptInput>
           </div>
         </div>
       </div>
@@ -0,0 +1,219 @@
+// src/react-app/FileBrowser.tsx
+import { useCallback, useEffect, useState } from 'react';
+import { FileIcon, ImageIcon, PencilIcon, PlusIcon, TrashIcon, XIcon } from 'lucide-react';
+
+export type StoredFile = {
+  key: string;
+  name: string;
+  folder: string;
+  size: number;
+  contentType: string;
+  createdAt: number;
+  public: boolean;
+  url: string;
+};
+
+const FOLDERS = [
+  { id: '', label: 'All' },
+  { id: 'uploads', label: 'Uploads' },
+  { id: 'images', label: 'Images' },
+  { id: 'screenshots', label: 'Screenshots' },
+  { id: 'files', label: 'Files' }
+];
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+};
+
+const fileApiPath = (key: string) => `/api/files/${key.split('/').map(encodeURIComponent).join('/')}`;
+
+function FileBrowser({ onInsert, onClose }: { onInsert: (file: StoredFile) => void; onClose: () => void }) {
+  const [folder, setFolder] = useState('');
+  const [files, setFiles] = useState<StoredFile[]>([]);
+  const [storage, setStorage] = useState<{ used: number; limit: number } | null>(null);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadFiles = useCallback(async (nextCursor?: string) => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (folder) params.set('folder', folder);
+      if (nextCursor) params.set('cursor', nextCursor);
+
+      const response = await fetch(`/api/files?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error);
+      }
+
+      setFiles(prev => nextCursor ? [...prev, ...data.files] : data.files);
+      setCursor(data.cursor);
+      setStorage(data.storage);
+    } catch (error) {
+      console.error('Failed to load files:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [folder]);
+
+  useEffect(() => {
+    loadFiles();
+  }, [loadFiles]);
+
+  const renameFile = async (file: StoredFile) => {
+    const name = window.prompt('Rename file', file.name);
+    if (!name || !name.trim() || name === file.name) return;
+
+    try {
+      const response = await fetch(fileApiPath(file.key), {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        },
+        body: JSON.stringify({ name: name.trim() })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error);
+      }
+      setFiles(prev => prev.map(f => f.key === file.key ? data.file : f));
+    } catch (error) {
+      console.error('Failed to rename file:', error);
+      alert(error instanceof Error ? error.message : 'Failed to rename file');
+    }
+  };
+
+  const deleteFile = async (file: StoredFile) => {
+    if (!window.confirm(`Delete ${file.name}?`)) return;
+
+    try {
+      const response = await fetch(fileApiPath(file.key), {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error);
+      }
+      setFiles(prev => prev.filter(f => f.key !== file.key));
+      setStorage(prev => prev && { ...prev, used: Math.max(prev.used - file.size, 0) });
+    } catch (error) {
+      console.error('Failed to delete file:', error);
+      alert('Failed to delete file');
+    }
+  };
+
+  return (
+    <div className="absolute inset-y-0 right-0 z-20 w-full max-w-md bg-white dark:bg-gray-800 border-l border-gray-200 dark:border-gray-700 shadow-xl flex flex-col">
+      <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="font-semibold text-gray-900 dark:text-white">Files</h2>
+        <button
+          onClick={onClose}
+          className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          title="Close"
+        >
+          <XIcon className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+        </button>
+      </div>
+
+      <div className="flex gap-1 p-2 border-b border-gray-200 dark:border-gray-700 overflow-x-auto">
+        {FOLDERS.map((option) => (
+          <button
+            key={option.id}
+            onClick={() => setFolder(option.id)}
+            className={`px-3 py-1 rounded-lg text-sm whitespace-nowrap transition-colors ${
+              folder === option.id
+                ? 'bg-[#c96442] text-white'
+                : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {files.map((file) => (
+          <div
+            key={file.key}
+            className="flex items-center gap-3 p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 group"
+          >
+            {file.contentType.startsWith('image/') ? (
+              <ImageIcon className="w-5 h-5 flex-shrink-0 text-gray-500" />
+            ) : (
+              <FileIcon className="w-5 h-5 flex-shrink-0 text-gray-500" />
+            )}
+            <a
+              href={file.url}
+              target="_blank"
+              rel="noreferrer"
+              className="flex-1 min-w-0"
+            >
+              <div className="text-sm text-gray-900 dark:text-white truncate">{file.name}</div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                {file.folder} · {formatBytes(file.size)} · {new Date(file.createdAt).toLocaleDateString()}
+              </div>
+            </a>
+            <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button onClick={() => onInsert(file)} title="Insert into prompt">
+                <PlusIcon className="w-4 h-4 text-[#c96442]" />
+              </button>
+              <button onClick={() => renameFile(file)} title="Rename">
+                <PencilIcon className="w-4 h-4 text-gray-500" />
+              </button>
+              <button onClick={() => deleteFile(file)} title="Delete">
+                <TrashIcon className="w-4 h-4 text-red-500" />
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {!isLoading && files.length === 0 && (
+          <div className="p-4 text-center text-sm text-gray-500 dark:text-gray-400">No files yet</div>
+        )}
+
+        {cursor && (
+          <button
+            onClick={() => loadFiles(cursor)}
+            disabled={isLoading}
+            className="w-full p-2 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+          >
+            Load more
+          </button>
+        )}
+
+        {isLoading && (
+          <div className="p-4 text-center text-xs text-gray-500 dark:text-gray-400">Loading files...</div>
+        )}
+      </div>
+
+      {storage && (
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 space-y-2">
+          <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+            <span>Storage</span>
+            <span>{formatBytes(storage.used)} of {formatBytes(storage.limit)}</span>
+          </div>
+          <div className="h-1.5 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+            <div
+              className="h-full bg-[#c96442]"
+              style={{ width: `${Math.min(storage.used / storage.limit * 100, 100)}%` }}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default FileBrowser;
@@ -0,0 +1,222 @@
+// src/react-app/UsageDashboard.tsx
+import { useEffect, useState } from 'react';
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { XIcon } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+
+type UsageAnalytics = {
+  range: { from: number; to: number };
+  totals: { requests: number; toolCalls: number; tokens: number; cost: number };
+  byModel: { model: string; requests: number; tokens: number; cost: number }[];
+  byTool: { tool: string; calls: number; errors: number }[];
+  byDay: { day: string; requests: number; toolCalls: number; tokens: number; cost: number }[];
+};
+
+const RANGES = [7, 30, 90];
+
+const dailyConfig = {
+  tokens: { label: 'Tokens', color: 'var(--chart-1)' }
+} satisfies ChartConfig;
+
+const activityConfig = {
+  requests: { label: 'Chat requests', color: 'var(--chart-2)' },
+  toolCalls: { label: 'Tool calls', color: 'var(--chart-4)' }
+} satisfies ChartConfig;
+
+const modelConfig = {
+  tokens: { label: 'Tokens', color: 'var(--chart-1)' }
+} satisfies ChartConfig;
+
+const formatNumber = (value: number) => new Intl.NumberFormat(undefined, { notation: 'compact' }).format(value);
+const formatCost = (value: number) => `$${value < 1 ? value.toFixed(4) : value.toFixed(2)}`;
+const shortModelName = (model: string) => model.split('/').pop() || model;
+
+function UsageDashboard({ onClose }: { onClose: () => void }) {
+  const [days, setDays] = useState(30);
+  const [analytics, setAnalytics] = useState<UsageAnalytics | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setError('');
+
+    fetch(`/api/analytics?days=${days}`, {
+      headers: {
+        'Authorization': `Bearer ${localStorage.getItem('token')}`
+      },
+      signal: controller.signal
+    })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error);
+        }
+        setAnalytics(data);
+      })
+      .catch((error) => {
+        if (error.name !== 'AbortError') {
+          console.error('Failed to load analytics:', error);
+          setError(error.message || 'Failed to load analytics');
+        }
+      });
+
+    return () => controller.abort();
+  }, [days]);
+
+  const stats = analytics ? [
+    { label: 'Chat requests', value: formatNumber(analytics.totals.requests) },
+    { label: 'Tool calls', value: formatNumber(analytics.totals.toolCalls) },
+    { label: 'Tokens', value: formatNumber(analytics.totals.tokens) },
+    { label: 'Estimated cost', value: formatCost(analytics.totals.cost) }
+  ] : [];
+
+  return (
+    <div className="flex-1 overflow-y-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Usage</h2>
+        <div className="flex items-center gap-2">
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-[#c96442] outline-none"
+          >
+            {RANGES.map((range) => (
+              <option key={range} value={range}>
+                Last {range} days
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            title="Back to chat"
+          >
+            <XIcon className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-600">{error}</div>
+      )}
+
+      {!analytics && !error && (
+        <div className="text-sm text-gray-500 dark:text-gray-400">Loading usage...</div>
+      )}
+
+      {analytics && (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {stats.map((stat) => (
+              <Card key={stat.label} className="gap-2 py-4">
+                <CardHeader className="px-4">
+                  <CardDescription>{stat.label}</CardDescription>
+                  <CardTitle className="text-2xl">{stat.value}</CardTitle>
+                </CardHeader>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Tokens per day</CardTitle>
+              <CardDescription>Prompt and completion tokens across all models</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={dailyConfig} className="h-64 w-full aspect-auto">
+                <AreaChart data={analytics.byDay}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="day" tickLine={false} axisLine={false} tickFormatter={(day: string) => day.slice(5)} />
+                  <YAxis tickLine={false} axisLine={false} tickFormatter={formatNumber} width={40} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Area dataKey="tokens" type="monotone" fill="var(--color-tokens)" fillOpacity={0.3} stroke="var(--color-tokens)" />
+                </AreaChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Activity per day</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={activityConfig} className="h-64 w-full aspect-auto">
+                <BarChart data={analytics.byDay}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="day" tickLine={false} axisLine={false} tickFormatter={(day: string) => day.slice(5)} />
+                  <YAxis tickLine={false} axisLine={false} allowDecimals={false} width={40} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="requests" stackId="activity" fill="var(--color-requests)" />
+                  <Bar dataKey="toolCalls" stackId="activity" fill="var(--color-toolCalls)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <div className="grid lg:grid-cols-2 gap-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>By model</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {analytics.byModel.length === 0 ? (
+                  <div className="text-sm text-gray-500 dark:text-gray-400">No chat requests in this range</div>
+                ) : (
+                  <>
+                    <ChartContainer config={modelConfig} className="h-48 w-full aspect-auto">
+                      <BarChart data={analytics.byModel.map(row => ({ ...row, name: shortModelName(row.model) }))} layout="vertical">
+                        <XAxis type="number" hide />
+                        <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={140} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <Bar dataKey="tokens" fill="var(--color-tokens)" radius={4} />
+                      </BarChart>
+                    </ChartContainer>
+                    <table className="w-full mt-4 text-sm">
+                      <tbody>
+                        {analytics.byModel.map((row) => (
+                          <tr key={row.model} className="border-t border-gray-200 dark:border-gray-700">
+                            <td className="py-2 text-gray-900 dark:text-white">{shortModelName(row.model)}</td>
+                            <td className="py-2 text-right text-gray-500">{row.requests} requests</td>
+                            <td className="py-2 text-right text-gray-500">{formatCost(row.cost)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>By tool</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {analytics.byTool.length === 0 ? (
+                  <div className="text-sm text-gray-500 dark:text-gray-400">No tool calls in this range</div>
+                ) : (
+                  <table className="w-full text-sm">
+                    <tbody>
+                      {analytics.byTool.map((row) => (
+                        <tr key={row.tool} className="border-t border-gray-200 dark:border-gray-700 first:border-t-0">
+                          <td className="py-2 font-mono text-gray-900 dark:text-white">{row.tool}</td>
+                          <td className="py-2 text-right text-gray-500">{row.calls} calls</td>
+                          <td className={`py-2 text-right ${row.errors > 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                            {row.errors} errors
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default UsageDashboard;
@@ -0,0 +1,30 @@
+// src/react-app/audio.test.ts
+import { describe, expect, it } from 'vitest';
+import { encodeWav } from './audio';
+
+function readString(view: DataView, offset: number, length: number) {
+  return String.fromCharCode(...new Uint8Array(view.buffer, offset, length));
+}
+
+describe('encodeWav', () => {
+  it('writes a 16-bit mono PCM header', () => {
+    const view = new DataView(encodeWav(new Float32Array(10), 16000));
+    expect(view.byteLength).toBe(44 + 20);
+    expect(readString(view, 0, 4)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(36 + 20);
+    expect(readString(view, 8, 8)).toBe('WAVEfmt ');
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(16000);
+    expect(view.getUint32(28, true)).toBe(32000);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(readString(view, 36, 4)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(20);
+  });
+
+  it('converts samples to little-endian Int16 and clamps them', () => {
+    const view = new DataView(encodeWav(Float32Array.from([0, 1, -1, 0.5, 2, -2]), 16000));
+    const samples = Array.from({ length: 6 }, (_, i) => view.getInt16(44 + i * 2, true));
+    expect(samples).toEqual([0, 32767, -32768, 16383, 32767, -32768]);
+  });
+});
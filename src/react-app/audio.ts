@@ -0,0 +1,278 @@
+// src/react-app/audio.ts
+// Voice mode audio: microphone capture as 16 kHz linear16 and playback of the
+// agent's 24 kHz linear16 speech. Both formats match the voice agent Settings.
+// The Workers AI voice mode instead records whole push-to-talk clips, which are
+// sent for transcription as 16 kHz mono WAV.
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+export const PLAYBACK_SAMPLE_RATE = 24000;
+
+// Frames posted by the worklet; 50 ms keeps latency low without flooding the socket
+const CAPTURE_FRAME_SAMPLES = CAPTURE_SAMPLE_RATE / 20;
+// Audio held before playback starts (and after an underrun) to absorb network jitter
+const JITTER_BUFFER_SECONDS = 0.15;
+
+// Runs on the audio thread. Browsers capture at the device rate (usually 48 kHz),
+// so samples are averaged down to 16 kHz before being converted to Int16.
+const CAPTURE_WORKLET = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.targetRate = options.processorOptions.targetRate;
+    this.frameSamples = options.processorOptions.frameSamples;
+    this.ratio = sampleRate / this.targetRate;
+    this.frame = new Int16Array(this.frameSamples);
+    this.frameLength = 0;
+    this.position = 0;
+    this.sum = 0;
+    this.count = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    for (let i = 0; i < channel.length; i++) {
+      this.sum += channel[i];
+      this.count++;
+      this.position++;
+      if (this.position < this.ratio) continue;
+
+      this.position -= this.ratio;
+      const sample = Math.max(-1, Math.min(1, this.sum / this.count));
+      this.sum = 0;
+      this.count = 0;
+      this.frame[this.frameLength++] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+
+      if (this.frameLength === this.frameSamples) {
+        this.port.postMessage(this.frame.buffer, [this.frame.buffer]);
+        this.frame = new Int16Array(this.frameSamples);
+        this.frameLength = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+`;
+
+export type PcmCapture = {
+  stop: () => void;
+};
+
+// Calls `onFrame` with little-endian Int16 PCM at 16 kHz until stopped
+export async function startPcmCapture(onFrame: (frame: ArrayBuffer) => void): Promise<PcmCapture> {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: {
+      channelCount: 1,
+      echoCancellation: true,
+      noiseSuppression: true,
+      autoGainControl: true
+    }
+  });
+  const context = new AudioContext();
+
+  try {
+    const moduleUrl = URL.createObjectURL(new Blob([CAPTURE_WORKLET], { type: 'application/javascript' }));
+    try {
+      await context.audioWorklet.addModule(moduleUrl);
+    } finally {
+      URL.revokeObjectURL(moduleUrl);
+    }
+
+    const source = context.createMediaStreamSource(stream);
+    const worklet = new AudioWorkletNode(context, 'pcm-capture', {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: 1,
+      processorOptions: { targetRate: CAPTURE_SAMPLE_RATE, frameSamples: CAPTURE_FRAME_SAMPLES }
+    });
+    worklet.port.onmessage = (event: MessageEvent<ArrayBuffer>) => onFrame(event.data);
+    source.connect(worklet);
+  } catch (error) {
+    stream.getTracks().forEach(track => track.stop());
+    await context.close();
+    throw error;
+  }
+
+  return {
+    stop: () => {
+      stream.getTracks().forEach(track => track.stop());
+      context.close();
+    }
+  };
+}
+
+// Plays streamed 24 kHz linear16 chunks back to back. Playback starts once a
+// little audio is buffered, and re-buffers after an underrun instead of
+// stuttering. `interrupt` drops everything queued or playing (barge-in).
+export class PcmPlayer {
+  private context = new AudioContext();
+  private queue: Float32Array[] = [];
+  private queuedSeconds = 0;
+  private sources = new Set<AudioBufferSourceNode>();
+  private nextStartTime = 0;
+  private playing = false;
+  // A chunk can end halfway through a sample
+  private leftover: number | null = null;
+
+  push(chunk: ArrayBuffer) {
+    let bytes = new Uint8Array(chunk);
+    if (this.leftover !== null) {
+      const joined = new Uint8Array(bytes.length + 1);
+      joined[0] = this.leftover;
+      joined.set(bytes, 1);
+      bytes = joined;
+      this.leftover = null;
+    }
+    if (bytes.length % 2 === 1) {
+      this.leftover = bytes[bytes.length - 1];
+      bytes = bytes.subarray(0, bytes.length - 1);
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const samples = new Float32Array(bytes.length / 2);
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = view.getInt16(i * 2, true) / 0x8000;
+    }
+
+    this.queue.push(samples);
+    this.queuedSeconds += samples.length / PLAYBACK_SAMPLE_RATE;
+    this.flush();
+  }
+
+  interrupt() {
+    for (const source of this.sources) {
+      source.onended = null;
+      source.stop();
+    }
+    this.sources.clear();
+    this.queue = [];
+    this.queuedSeconds = 0;
+    this.leftover = null;
+    this.playing = false;
+  }
+
+  close() {
+    this.interrupt();
+    this.context.close();
+  }
+
+  private flush() {
+    if (this.context.state === 'suspended') {
+      this.context.resume();
+    }
+
+    const now = this.context.currentTime;
+    if (this.playing && this.nextStartTime < now) {
+      // Underrun: the queue ran dry, so wait for the jitter buffer to refill
+      this.playing = false;
+    }
+    if (!this.playing) {
+      if (this.queuedSeconds < JITTER_BUFFER_SECONDS) return;
+      this.playing = true;
+      this.nextStartTime = now;
+    }
+
+    for (const samples of this.queue) {
+      const buffer = this.context.createBuffer(1, samples.length, PLAYBACK_SAMPLE_RATE);
+      buffer.copyToChannel(samples, 0);
+
+      const source = this.context.createBufferSource();
+      source.buffer = buffer;
+      source.connect(this.context.destination);
+      source.onended = () => this.sources.delete(source);
+      source.start(this.nextStartTime);
+      this.sources.add(source);
+      this.nextStartTime += buffer.duration;
+    }
+    this.queue = [];
+    this.queuedSeconds = 0;
+  }
+}
+
+// 16-bit PCM WAV: a 44-byte RIFF header followed by little-endian samples
+export function encodeWav(samples: Float32Array, sampleRate: number): ArrayBuffer {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+  return buffer;
+}
+
+// MediaRecorder's container varies by browser (webm/opus, mp4/aac, ogg), and
+// whisper only reliably decodes plain formats, so the clip is decoded here,
+// mixed down to mono at 16 kHz and re-encoded as WAV
+async function clipToWav(clip: Blob): Promise<Blob> {
+  // decodeAudioData resamples to the context's rate
+  const context = new OfflineAudioContext(1, 1, CAPTURE_SAMPLE_RATE);
+  const decoded = await context.decodeAudioData(await clip.arrayBuffer());
+
+  const samples = new Float32Array(decoded.length);
+  for (let channel = 0; channel < decoded.numberOfChannels; channel++) {
+    const data = decoded.getChannelData(channel);
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] += data[i] / decoded.numberOfChannels;
+    }
+  }
+  return new Blob([encodeWav(samples, decoded.sampleRate)], { type: 'audio/wav' });
+}
+
+export type ClipRecording = {
+  // Resolves with the recorded clip as WAV once the recorder has flushed
+  stop: () => Promise<Blob>;
+  cancel: () => void;
+};
+
+// Records one push-to-talk clip for transcription
+export async function startClipRecording(): Promise<ClipRecording> {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: {
+      channelCount: 1,
+      echoCancellation: true,
+      noiseSuppression: true
+    }
+  });
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => chunks.push(event.data);
+  recorder.start();
+
+  const release = () => stream.getTracks().forEach(track => track.stop());
+
+  return {
+    stop: () => new Promise<Blob>((resolve) => {
+      recorder.onstop = () => {
+        release();
+        resolve(new Blob(chunks, { type: recorder.mimeType }));
+      };
+      recorder.stop();
+    }).then(clipToWav),
+    cancel: () => {
+      recorder.onstop = null;
+      if (recorder.state !== 'inactive') recorder.stop();
+      release();
+    }
+  };
+}
@@ -1,9 +1,12 @@
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import { cors } from 'hono/cors';
+import { deleteCookie, getCookie, setCookie } from 'hono/cookie';
+import { createMiddleware } from 'hono/factory';
 import { streamSSE } from 'hono/streaming';
 import puppeteer from '@cloudflare/puppeteer';
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import { runWithTools, tool } from '@cloudflare/ai-utils';
+import { runWithTools, tool, type ToolsSchema } from '@cloudflare/ai-utils';
+import { SQL_MAX_ROWS, SQL_TABLES, guardSqlQuery } from './sqlGuard';
 
 type Env = {
   AI: Ai;
@@ -12,19 +15,44 @@ type Env = {
   CHAT_SESSIONS: KVNamespace;
   FILE_STORAGE: R2Bucket;
   CHAT_DO: DurableObjectNamespace;
+  WORKFLOW_DO: DurableObjectNamespace;
   AI_CHAT_DB: D1Database;
   GOOGLE_AI_STUDIO_TOKEN: string;
   DEEPGRAM_API_KEY: string;
   AUTH_SECRET: string;
   GITHUB_CLIENT_ID: string;
   GITHUB_CLIENT_SECRET: string;
+  GITHUB_OAUTH_URL?: string;
+  GITHUB_API_URL?: string;
+  DEEPGRAM_AGENT_URL?: string;
 };
 
-const app = new Hono<{ Bindings: Env }>();
+type TokenClaims = {
+  sub: string;
+  iat: number;
+  exp: number;
+  jti: string;
+};
+
+type AuthUser = {
+  id: string;
+  name: string;
+  settings: Record<string, unknown>;
+};
+
+type AppEnv = {
+  Bindings: Env;
+  Variables: {
+    user: AuthUser;
+    token: TokenClaims;
+  };
+};
+
+const app = new Hono<AppEnv>();
 
 app.use('/*', cors({
   origin: '*',
-  allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
   allowHeaders: ['Content-Type', 'Authorization', 'X-User-Id'],
 }));
 
@@ -46,10 +74,15 @@ Available Tools:
 - web_search: Search the web using AI Search
 - generate_image: Create images with AI
 - analyze_code: Review and improve code quality
-- execute_workflow: Run code review workflows
+- execute_workflow: Run code review workflows in the background
+- get_workflow_status: Check progress and results of a workflow run
 - save_to_storage: Store files in R2
-- query_database: Execute D1 database queries
+- query_database: Run read-only SELECT queries over your own D1 data
 - get_ai_model: Get information about available AI models
+- save_snippet: Save code to the user's snippet library
+- search_snippets: Find previously saved snippets to reuse
+
+Files the user links in a message are included after it as <attachment> blocks. An attachment marked truncated="true" was cut to fit; say so if the missing part matters.
 
 When writing code:
 - Always use TypeScript with proper types
@@ -65,34 +98,256 @@ Response format:
 - For errors: Provide actionable solutions`;
 
 // ==================== AUTH & UTILS ====================
-async function hashPassword(password: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(password);
-  const hash = await crypto.subtle.digest('SHA-256', data);
+const TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+function base64UrlEncode(data: ArrayBuffer | Uint8Array | string): string {
+  const bytes = typeof data === 'string'
+    ? new TextEncoder().encode(data)
+    : new Uint8Array(data);
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(input: string): Uint8Array {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '='));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+async function getSigningKey(env: Env): Promise<CryptoKey> {
+  if (!env.AUTH_SECRET) {
+    throw new Error('AUTH_SECRET is not configured');
+  }
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(env.AUTH_SECRET),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+// Password hashes are stored as `v1$pbkdf2-sha256$<iterations>$<salt>$<hash>`.
+// Hashes without a version prefix are legacy unsalted SHA-256 hex digests.
+const PASSWORD_HASH_VERSION = 'v1';
+const PASSWORD_HASH_ALGORITHM = 'pbkdf2-sha256';
+const PBKDF2_ITERATIONS = 100000; // Workers caps PBKDF2 at 100k iterations
+const PASSWORD_SALT_BYTES = 16;
+
+type PasswordCheck = {
+  valid: boolean;
+  needsRehash: boolean;
+};
+
+async function derivePasswordKey(password: string, salt: Uint8Array, iterations: number): Promise<ArrayBuffer> {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  return crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    keyMaterial,
+    256
+  );
+}
+
+async function legacySha256(password: string): Promise<string> {
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password));
   return Array.from(new Uint8Array(hash))
     .map(b => b.toString(16).padStart(2, '0'))
     .join('');
 }
 
-async function verifyPassword(password: string, hash: string): Promise<boolean> {
-  return (await hashPassword(password)) === hash;
+function constantTimeEqual(a: ArrayBuffer | Uint8Array, b: ArrayBuffer | Uint8Array): boolean {
+  if (a.byteLength !== b.byteLength) {
+    return false;
+  }
+  return crypto.subtle.timingSafeEqual(a, b);
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(PASSWORD_SALT_BYTES));
+  const hash = await derivePasswordKey(password, salt, PBKDF2_ITERATIONS);
+  return [
+    PASSWORD_HASH_VERSION,
+    PASSWORD_HASH_ALGORITHM,
+    PBKDF2_ITERATIONS,
+    base64UrlEncode(salt),
+    base64UrlEncode(hash)
+  ].join('$');
+}
+
+async function verifyPassword(password: string, stored: string): Promise<PasswordCheck> {
+  const parts = stored.split('$');
+  
+  if (parts.length === 1) {
+    const encoder = new TextEncoder();
+    const valid = constantTimeEqual(
+      encoder.encode(await legacySha256(password)),
+      encoder.encode(stored.toLowerCase())
+    );
+    return { valid, needsRehash: valid };
+  }
+  
+  const [version, algorithm, iterations, salt, hash] = parts;
+  if (version !== PASSWORD_HASH_VERSION || algorithm !== PASSWORD_HASH_ALGORITHM || !salt || !hash) {
+    return { valid: false, needsRehash: false };
+  }
+  
+  const rounds = parseInt(iterations, 10);
+  if (!Number.isFinite(rounds) || rounds <= 0) {
+    return { valid: false, needsRehash: false };
+  }
+  
+  const derived = await derivePasswordKey(password, base64UrlDecode(salt), rounds);
+  const valid = constantTimeEqual(derived, base64UrlDecode(hash));
+  return { valid, needsRehash: valid && rounds !== PBKDF2_ITERATIONS };
 }
 
-async function generateToken(userId: string): Promise<string> {
-  const token = crypto.randomUUID();
-  return btoa(`${userId}:${token}`);
+// Tokens are compact JWTs (HS256) signed with AUTH_SECRET.
+async function generateToken(env: Env, userId: string): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: TokenClaims = {
+    sub: userId,
+    iat: now,
+    exp: now + TOKEN_TTL_SECONDS,
+    jti: crypto.randomUUID()
+  };
+  
+  const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64UrlEncode(JSON.stringify(claims));
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    await getSigningKey(env),
+    new TextEncoder().encode(`${header}.${payload}`)
+  );
+  
+  return `${header}.${payload}.${base64UrlEncode(signature)}`;
 }
 
-async function verifyToken(token: string): Promise<string | null> {
+async function readToken(env: Env, token: string): Promise<TokenClaims | null> {
   try {
-    const decoded = atob(token);
-    const [userId] = decoded.split(':');
-    return userId;
+    const [header, payload, signature] = token.split('.');
+    if (!header || !payload || !signature) {
+      return null;
+    }
+    
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await getSigningKey(env),
+      base64UrlDecode(signature),
+      new TextEncoder().encode(`${header}.${payload}`)
+    );
+    if (!valid) {
+      return null;
+    }
+    
+    const claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(payload))) as TokenClaims;
+    if (!claims.sub || !claims.jti || claims.exp <= Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+    
+    if (await env.CHAT_SESSIONS.get(`revoked:${claims.jti}`)) {
+      return null;
+    }
+    
+    const validAfter = await env.CHAT_SESSIONS.get(`tokens-valid-after:${claims.sub}`);
+    // iat has whole-second resolution, so a token from the revoking second is revoked too
+    if (validAfter && claims.iat <= Number(validAfter)) {
+      return null;
+    }
+    
+    return claims;
   } catch {
     return null;
   }
 }
 
+// Revoked token ids live in KV until the token would have expired anyway
+async function revokeToken(env: Env, claims: TokenClaims): Promise<void> {
+  const ttl = claims.exp - Math.floor(Date.now() / 1000);
+  if (ttl <= 0) {
+    return;
+  }
+  await env.CHAT_SESSIONS.put(`revoked:${claims.jti}`, claims.sub, {
+    // KV requires a minimum TTL of 60 seconds
+    expirationTtl: Math.max(ttl, 60)
+  });
+}
+
+// Invalidates every token issued to the user so far (signing out everywhere)
+async function revokeUserTokens(env: Env, userId: string): Promise<void> {
+  await env.CHAT_SESSIONS.put(`tokens-valid-after:${userId}`, String(Math.floor(Date.now() / 1000)), {
+    expirationTtl: TOKEN_TTL_SECONDS
+  });
+}
+
+// ==================== AUTH MIDDLEWARE ====================
+// The only place that knows how a request proves its identity. Routes read
+// the result from c.var.user / c.var.token.
+async function authenticate(c: Context<AppEnv>): Promise<boolean> {
+  const authHeader = c.req.header('Authorization');
+  if (!authHeader?.startsWith('Bearer ')) {
+    return false;
+  }
+  
+  const claims = await readToken(c.env, authHeader.slice('Bearer '.length));
+  if (!claims) {
+    return false;
+  }
+  
+  const user = await loadAuthUser(c.env, claims.sub);
+  if (!user) {
+    return false;
+  }
+  
+  c.set('token', claims);
+  c.set('user', user);
+  return true;
+}
+
+async function loadAuthUser(env: Env, userId: string): Promise<AuthUser | null> {
+  const user = await env.AI_CHAT_DB.prepare(
+    'SELECT id, name, settings FROM users WHERE id = ?'
+  ).bind(userId).first();
+  if (!user) {
+    return null;
+  }
+  
+  return {
+    id: user.id as string,
+    name: user.name as string,
+    settings: JSON.parse((user.settings as string) || '{}')
+  };
+}
+
+function unauthorized(c: Context<AppEnv>, message = 'Unauthorized') {
+  return c.json({ error: message, code: 'unauthorized' }, 401);
+}
+
+function forbidden(c: Context<AppEnv>, message = 'Forbidden') {
+  return c.json({ error: message, code: 'forbidden' }, 403);
+}
+
+const requireAuth = createMiddleware<AppEnv>(async (c, next) => {
+  if (!(await authenticate(c))) {
+    return unauthorized(c, c.req.header('Authorization') ? 'Invalid token' : 'Unauthorized');
+  }
+  await next();
+});
+
+// Populates c.var.user when a valid token is present, but never rejects
+const optionalAuth = createMiddleware<AppEnv>(async (c, next) => {
+  await authenticate(c);
+  await next();
+});
+
 // ==================== AUTH ROUTES ====================
 app.post('/api/auth/signup', async (c) => {
   try {
@@ -112,7 +367,7 @@ app.post('/api/auth/signup', async (c) => {
       JSON.stringify({ theme: 'dark', model: '@cf/meta/llama-3.1-8b-instruct' })
     ).run();
     
-    const token = await generateToken(userId);
+    const token = await generateToken(c.env, userId);
     
     c.env.ANALYTICS.writeDataPoint({
       blobs: [userId, 'signup', email],
@@ -134,11 +389,22 @@ app.post('/api/auth/login', async (c) => {
       'SELECT * FROM users WHERE email = ?'
     ).bind(email).first();
     
-    if (!result || !(await verifyPassword(password, result.password as string))) {
+    const check = result
+      ? await verifyPassword(password, result.password as string)
+      : { valid: false, needsRehash: false };
+    
+    if (!result || !check.valid) {
       return c.json({ error: 'Invalid credentials' }, 401);
     }
     
-    const token = await generateToken(result.id as string);
+    // Upgrade legacy or outdated hashes now that we know the plaintext
+    if (check.needsRehash) {
+      await c.env.AI_CHAT_DB.prepare(
+        'UPDATE users SET password = ?, updated_at = ? WHERE id = ?'
+      ).bind(await hashPassword(password), Math.floor(Date.now() / 1000), result.id).run();
+    }
+    
+    const token = await generateToken(c.env, result.id as string);
     
     c.env.ANALYTICS.writeDataPoint({
       blobs: [result.id as string, 'login', email],
@@ -158,236 +424,1318 @@ app.post('/api/auth/login', async (c) => {
   }
 });
 
-// ==================== TOOLS IMPLEMENTATION ====================
-const createTools = (env: Env, userId: string) => [
-  tool({
-    name: 'screenshot',
-    description: 'Capture a screenshot of any website. Returns base64 image data.',
-    parameters: {
-      type: 'object',
-      properties: {
-        url: {
-          type: 'string',
-          description: 'The URL of the website to screenshot'
-        },
-        fullPage: {
-          type: 'boolean',
-          description: 'Whether to capture the full page or just viewport'
-        }
-      },
-      required: ['url']
-    },
-    function: async ({ url, fullPage }: { url: string; fullPage?: boolean }) => {
-      try {
-        const browser = await puppeteer.launch(env.MYBROWSER);
-        const page = await browser.newPage();
-        await page.goto(url, { waitUntil: 'networkidle0' });
-        
-        const screenshot = await page.screenshot({
-          fullPage: fullPage || false,
-          type: 'jpeg',
-          quality: 80
-        });
-        
-        await browser.close();
-        
-        // Store in R2
-        const key = `screenshots/${userId}/${Date.now()}.jpg`;
-        await env.FILE_STORAGE.put(key, screenshot);
-        
-        env.ANALYTICS.writeDataPoint({
-          blobs: [userId, 'screenshot', url],
-          doubles: [1],
-          indexes: ['tool_usage']
-        });
-        
-        return {
-          success: true,
-          url: `/api/files/${key}`,
-          data: Buffer.from(screenshot).toString('base64').slice(0, 1000) + '...'
-        };
-      } catch (error: any) {
-        return { error: error.message };
-      }
+app.post('/api/auth/refresh', requireAuth, async (c) => {
+  try {
+    const claims = c.var.token;
+    
+    // Rotate: the old token stops working as soon as the new one is issued
+    await revokeToken(c.env, claims);
+    const token = await generateToken(c.env, claims.sub);
+    
+    return c.json({ success: true, token, userId: claims.sub });
+  } catch (error: any) {
+    return c.json({ error: error.message }, 400);
+  }
+});
+
+app.post('/api/auth/logout', requireAuth, async (c) => {
+  try {
+    const claims = c.var.token;
+    const { all } = await c.req.json<{ all?: boolean }>().catch(() => ({ all: false }));
+    
+    if (all) {
+      await revokeUserTokens(c.env, claims.sub);
+    } else {
+      await revokeToken(c.env, claims);
     }
-  }),
+    
+    c.env.ANALYTICS.writeDataPoint({
+      blobs: [claims.sub, all ? 'logout_all' : 'logout', claims.jti],
+      doubles: [1],
+      indexes: ['auth']
+    });
+    
+    return c.json({ success: true });
+  } catch (error: any) {
+    return c.json({ error: error.message }, 400);
+  }
+});
+
+// ==================== GITHUB OAUTH ====================
+const OAUTH_STATE_TTL_SECONDS = 10 * 60;
+
+type GitHubUser = {
+  id: number;
+  login: string;
+  name: string | null;
+  email: string | null;
+  avatar_url: string;
+};
+
+type GitHubEmail = {
+  email: string;
+  primary: boolean;
+  verified: boolean;
+};
+
+// Overridable so tests can point the flow at a local mock server
+function getGitHubUrls(env: Env) {
+  return {
+    oauth: (env.GITHUB_OAUTH_URL || 'https://github.com').replace(/\/$/, ''),
+    api: (env.GITHUB_API_URL || 'https://api.github.com').replace(/\/$/, '')
+  };
+}
+
+async function createPkceChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return base64UrlEncode(digest);
+}
+
+async function fetchGitHub<T>(env: Env, path: string, accessToken: string): Promise<T> {
+  const response = await fetch(`${getGitHubUrls(env).api}${path}`, {
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Accept': 'application/vnd.github+json',
+      'User-Agent': 'workerai'
+    }
+  });
   
-  tool({
-    name: 'web_search',
-    description: 'Search the web for current information using AI-powered search.',
-    parameters: {
-      type: 'object',
-      properties: {
-        query: {
-          type: 'string',
-          description: 'The search query'
-        }
+  if (!response.ok) {
+    throw new Error(`GitHub API request failed: ${response.status}`);
+  }
+  
+  return response.json() as Promise<T>;
+}
+
+// Stored under oauth:<state>. `linkUserId` is set when a signed-in user is
+// connecting GitHub to their account rather than signing in with it.
+type OAuthState = {
+  verifier: string;
+  linkUserId?: string;
+};
+
+// Sets the state cookie on `c` and returns GitHub's authorize URL
+async function beginGitHubAuth(c: Context<AppEnv>, linkUserId?: string): Promise<string> {
+  const state = base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+  const verifier = base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+  const stored: OAuthState = { verifier, ...(linkUserId && { linkUserId }) };
+  
+  await c.env.CHAT_SESSIONS.put(`oauth:${state}`, JSON.stringify(stored), {
+    expirationTtl: OAUTH_STATE_TTL_SECONDS
+  });
+  
+  // Binds the state to this browser so a callback can't be replayed from elsewhere
+  setCookie(c, 'oauth_state', state, {
+    path: '/api/auth/github',
+    httpOnly: true,
+    secure: new URL(c.req.url).protocol === 'https:',
+    sameSite: 'Lax',
+    maxAge: OAUTH_STATE_TTL_SECONDS
+  });
+  
+  const authorizeUrl = new URL(`${getGitHubUrls(c.env).oauth}/login/oauth/authorize`);
+  authorizeUrl.searchParams.set('client_id', c.env.GITHUB_CLIENT_ID);
+  authorizeUrl.searchParams.set('redirect_uri', new URL('/api/auth/github/callback', c.req.url).toString());
+  authorizeUrl.searchParams.set('scope', 'read:user user:email');
+  authorizeUrl.searchParams.set('state', state);
+  authorizeUrl.searchParams.set('code_challenge', await createPkceChallenge(verifier));
+  authorizeUrl.searchParams.set('code_challenge_method', 'S256');
+  
+  return authorizeUrl.toString();
+}
+
+app.get('/api/auth/github', async (c) => {
+  if (!c.env.GITHUB_CLIENT_ID) {
+    return c.json({ error: 'GitHub sign-in is not configured' }, 501);
+  }
+  
+  return c.redirect(await beginGitHubAuth(c));
+});
+
+// Connecting GitHub to an existing account needs its owner signed in. The
+// client fetches this (setting the state cookie) and then navigates to `url`.
+app.post('/api/auth/github/link', requireAuth, async (c) => {
+  if (!c.env.GITHUB_CLIENT_ID) {
+    return c.json({ error: 'GitHub sign-in is not configured' }, 501);
+  }
+  
+  return c.json({ url: await beginGitHubAuth(c, c.var.user.id) });
+});
+
+app.get('/api/auth/github/callback', async (c) => {
+  const fail = (reason: string) => c.redirect(`/#auth_error=${encodeURIComponent(reason)}`);
+  
+  try {
+    const code = c.req.query('code');
+    const state = c.req.query('state');
+    const cookieState = getCookie(c, 'oauth_state');
+    deleteCookie(c, 'oauth_state', { path: '/api/auth/github' });
+    
+    if (c.req.query('error')) {
+      return fail(c.req.query('error') as string);
+    }
+    
+    if (!code || !state || state !== cookieState) {
+      return fail('invalid_state');
+    }
+    
+    const stored = await c.env.CHAT_SESSIONS.get<OAuthState>(`oauth:${state}`, 'json');
+    if (!stored) {
+      return fail('invalid_state');
+    }
+    await c.env.CHAT_SESSIONS.delete(`oauth:${state}`);
+    const { verifier, linkUserId } = stored;
+    
+    const tokenResponse = await fetch(`${getGitHubUrls(c.env).oauth}/login/oauth/access_token`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json'
       },
-      required: ['query']
-    },
-    function: async ({ query }: { query: string }) => {
-      try {
-        const answer = await env.AI.autorag('wave').aiSearch({
-          query: query,
-        });
-        
-        env.ANALYTICS.writeDataPoint({
-          blobs: [userId, 'web_search', query],
-          doubles: [1],
-          indexes: ['tool_usage']
-        });
-        
-        return {
-          success: true,
-          results: answer,
-          query
-        };
-      } catch (error: any) {
-        return { error: error.message };
+      body: JSON.stringify({
+        client_id: c.env.GITHUB_CLIENT_ID,
+        client_secret: c.env.GITHUB_CLIENT_SECRET,
+        code,
+        code_verifier: verifier,
+        redirect_uri: new URL('/api/auth/github/callback', c.req.url).toString()
+      })
+    });
+    
+    const tokenData = await tokenResponse.json() as { access_token?: string; error?: string };
+    if (!tokenData.access_token) {
+      return fail(tokenData.error || 'token_exchange_failed');
+    }
+    
+    const profile = await fetchGitHub<GitHubUser>(c.env, '/user', tokenData.access_token);
+    const emails = await fetchGitHub<GitHubEmail[]>(c.env, '/user/emails', tokenData.access_token);
+    const primaryEmail = emails.find(e => e.primary && e.verified)?.email;
+    
+    if (!primaryEmail) {
+      return fail('no_verified_email');
+    }
+    
+    const githubId = String(profile.id);
+    const linked = await c.env.AI_CHAT_DB.prepare(
+      'SELECT id FROM users WHERE github_id = ?'
+    ).bind(githubId).first();
+    
+    let userId: string;
+    
+    if (linkUserId) {
+      if (linked && linked.id !== linkUserId) {
+        return fail('github_in_use');
+      }
+      
+      // Never re-point an account that is already connected to another GitHub user
+      const result = await c.env.AI_CHAT_DB.prepare(`
+        UPDATE users SET github_id = ?, avatar_url = ?, last_login = ?, updated_at = ?
+        WHERE id = ? AND (github_id IS NULL OR github_id = ?)
+      `).bind(githubId, profile.avatar_url, Date.now(), Math.floor(Date.now() / 1000), linkUserId, githubId).run();
+      if (result.meta.changes === 0) {
+        return fail('account_linked_to_other_github');
       }
+      userId = linkUserId;
+    } else if (linked) {
+      userId = linked.id as string;
+      await c.env.AI_CHAT_DB.prepare(`
+        UPDATE users SET avatar_url = ?, last_login = ? WHERE id = ?
+      `).bind(profile.avatar_url, Date.now(), userId).run();
+    } else if (await c.env.AI_CHAT_DB.prepare('SELECT 1 FROM users WHERE email = ?').bind(primaryEmail).first()) {
+      // Signup doesn't verify emails, so a matching address proves nothing about
+      // who owns that account: its owner has to sign in and connect GitHub
+      return fail('account_exists');
+    } else {
+      userId = crypto.randomUUID();
+      await c.env.AI_CHAT_DB.prepare(`
+        INSERT INTO users (id, email, password, name, created_at, settings, avatar_url, github_id, last_login)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        userId,
+        primaryEmail,
+        '', // OAuth-only account, password login is disabled
+        profile.name || profile.login,
+        Date.now(),
+        JSON.stringify({ theme: 'dark', model: '@cf/meta/llama-3.1-8b-instruct' }),
+        profile.avatar_url,
+        githubId,
+        Date.now()
+      ).run();
     }
-  }),
-  
-  tool({
-    name: 'generate_image',
-    description: 'Generate an image using AI based on a text prompt.',
-    parameters: {
-      type: 'object',
-      properties: {
-        prompt: {
-          type: 'string',
-          description: 'The text description of the image to generate'
-        },
-        steps: {
-          type: 'number',
-          description: 'Number of diffusion steps (1-8, default 4)'
-        }
+    
+    const token = await generateToken(c.env, userId);
+    
+    c.env.ANALYTICS.writeDataPoint({
+      blobs: [userId, linkUserId ? 'link' : linked ? 'login' : 'signup', 'github'],
+      doubles: [1],
+      indexes: ['auth']
+    });
+    
+    // Fragments never reach the server, so the token stays out of access logs
+    return c.redirect(`/#token=${encodeURIComponent(token)}&userId=${encodeURIComponent(userId)}`);
+  } catch (error: any) {
+    console.error('GitHub OAuth error:', error);
+    return fail('oauth_failed');
+  }
+});
+
+// ==================== WORKFLOWS ====================
+// Multi-step jobs tracked in workflow_executions. Step progress is kept in the
+// `output` JSON so clients can poll it while the run is in flight, and so a run
+// that was interrupted can resume after its last completed step.
+// Runs execute in WorkflowDurableObject alarms, which are retried if the
+// object is evicted; anything still unfinished after WORKFLOW_TIMEOUT_MS is
+// marked failed when it's next looked at.
+const WORKFLOW_TIMEOUT_MS = 15 * 60 * 1000;
+
+type WorkflowStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+type WorkflowStepRecord = {
+  name: string;
+  status: WorkflowStatus;
+  startedAt?: number;
+  completedAt?: number;
+  output?: unknown;
+  error?: string;
+};
+
+// Parsed from the request as-is; each workflow's validate() checks its fields
+type WorkflowInput = Record<string, unknown>;
+
+type WorkflowContext = {
+  env: Env;
+  userId: string;
+  input: WorkflowInput;
+  results: Record<string, unknown>;
+};
+
+type WorkflowDefinition = {
+  description: string;
+  validate: (input: WorkflowInput) => string | null;
+  steps: { name: string; run: (ctx: WorkflowContext) => Promise<unknown> }[];
+};
+
+const WORKFLOW_MODEL = '@cf/meta/llama-3.1-8b-instruct';
+
+// Cheap static checks so the review has concrete, line-level findings
+function lintCode(code: string, language: string) {
+  const rules: { pattern: RegExp; message: string; severity: 'error' | 'warning' | 'info'; languages?: string[] }[] = [
+    { pattern: /\beval\s*\(/, message: 'Avoid eval(); it executes arbitrary code', severity: 'error' },
+    { pattern: /new Function\s*\(/, message: 'Avoid new Function(); it executes arbitrary code', severity: 'error' },
+    { pattern: /(api[_-]?key|secret|password|token)\s*[:=]\s*['"][^'"]{8,}['"]/i, message: 'Possible hard-coded secret', severity: 'error' },
+    { pattern: /\.innerHTML\s*=/, message: 'Assigning innerHTML can introduce XSS', severity: 'warning' },
+    { pattern: /\bvar\s+/, message: 'Use let or const instead of var', severity: 'warning', languages: ['javascript', 'typescript'] },
+    { pattern: /:\s*any\b|as any\b/, message: 'Avoid the any type', severity: 'warning', languages: ['typescript'] },
+    { pattern: /[^=!]==[^=]/, message: 'Use strict equality (===)', severity: 'warning', languages: ['javascript', 'typescript'] },
+    { pattern: /console\.log\(/, message: 'Leftover console.log', severity: 'info' },
+    { pattern: /\b(TODO|FIXME|XXX)\b/, message: 'Unresolved TODO/FIXME', severity: 'info' }
+  ];
+  
+  const findings: { line: number; severity: string; message: string }[] = [];
+  code.split('\n').forEach((text, index) => {
+    for (const rule of rules) {
+      if (rule.languages && !rule.languages.includes(language)) {
+        continue;
+      }
+      if (rule.pattern.test(text)) {
+        findings.push({ line: index + 1, severity: rule.severity, message: rule.message });
+      }
+    }
+    if (text.length > 120) {
+      findings.push({ line: index + 1, severity: 'info', message: 'Line longer than 120 characters' });
+    }
+  });
+  
+  return {
+    findings: findings.slice(0, 100),
+    counts: {
+      error: findings.filter(f => f.severity === 'error').length,
+      warning: findings.filter(f => f.severity === 'warning').length,
+      info: findings.filter(f => f.severity === 'info').length
+    }
+  };
+}
+
+async function runWorkflowPrompt(env: Env, system: string, user: string): Promise<string> {
+  const result = await env.AI.run(WORKFLOW_MODEL, {
+    messages: [
+      { role: 'system', content: system },
+      { role: 'user', content: user }
+    ],
+    max_tokens: 1024
+  }) as { response?: string };
+  return result.response || '';
+}
+
+const WORKFLOWS: Record<string, WorkflowDefinition> = {
+  code_review: {
+    description: 'Lint, analyze and summarize a piece of code',
+    validate: (input) => typeof input.code === 'string' && input.code.trim()
+      ? null
+      : 'input.code is required',
+    steps: [
+      {
+        name: 'lint',
+        run: async ({ input }) => lintCode(String(input.code), String(input.language || 'typescript').toLowerCase())
       },
-      required: ['prompt']
-    },
-    function: async ({ prompt, steps }: { prompt: string; steps?: number }) => {
-      try {
-        const response = await env.AI.run('@cf/black-forest-labs/flux-1-schnell', {
-          prompt,
-          steps: steps || 4,
-          seed: Math.floor(Math.random() * 10000)
-        });
-        
-        // Store in R2
-        const imageData = Buffer.from(response.image, 'base64');
-        const key = `images/${userId}/${Date.now()}.jpg`;
-        await env.FILE_STORAGE.put(key, imageData);
-        
-        env.ANALYTICS.writeDataPoint({
-          blobs: [userId, 'generate_image', prompt],
-          doubles: [1],
-          indexes: ['tool_usage']
-        });
-        
-        return {
-          success: true,
-          url: `/api/files/${key}`,
-          prompt
-        };
-      } catch (error: any) {
-        return { error: error.message };
+      {
+        name: 'analyze',
+        run: async ({ env, input, results }) => runWorkflowPrompt(
+          env,
+          'You are a code review expert. Analyze the code for bugs, security issues, performance problems and maintainability. Reference line numbers. Be specific and actionable.',
+          `Language: ${input.language || 'unknown'}\n\nLint findings:\n${JSON.stringify(results.lint)}\n\nCode:\n${truncateToTokens(String(input.code), 4000)}`
+        )
+      },
+      {
+        name: 'summarize',
+        run: async ({ env, results }) => runWorkflowPrompt(
+          env,
+          'Summarize a code review for a developer. Give an overall verdict (approve, approve with changes, or request changes), then the top 5 issues ordered by severity, each with a one-line fix.',
+          `Lint findings:\n${JSON.stringify(results.lint)}\n\nAnalysis:\n${results.analyze}`
+        )
       }
+    ]
+  }
+};
+
+async function getWorkflowStatus(env: Env, executionId: string): Promise<WorkflowStatus | null> {
+  const row = await env.AI_CHAT_DB.prepare(
+    'SELECT status FROM workflow_executions WHERE id = ?'
+  ).bind(executionId).first();
+  return row ? row.status as WorkflowStatus : null;
+}
+
+type WorkflowRun = {
+  executionId: string;
+  userId: string;
+  type: string;
+  input: WorkflowInput;
+};
+
+async function runWorkflow(env: Env, { executionId, userId, type, input }: WorkflowRun) {
+  const definition = WORKFLOWS[type];
+  const row = await env.AI_CHAT_DB.prepare(
+    'SELECT status, output FROM workflow_executions WHERE id = ?'
+  ).bind(executionId).first();
+  
+  // Finished, cancelled or timed out while this attempt was waiting
+  if (!row || (row.status !== 'pending' && row.status !== 'running')) {
+    return;
+  }
+  
+  const saved = row.output ? JSON.parse(row.output as string) : {};
+  const steps: WorkflowStepRecord[] = saved.steps || definition.steps.map(step => ({ name: step.name, status: 'pending' }));
+  const ctx: WorkflowContext = { env, userId, input, results: saved.results || {} };
+  
+  const save = (status: WorkflowStatus, error: string | null = null, done = false) => env.AI_CHAT_DB.prepare(`
+    UPDATE workflow_executions SET status = ?, output = ?, error = ?, completed_at = ?
+    WHERE id = ? AND status IN ('pending', 'running')
+  `).bind(
+    status,
+    JSON.stringify({ steps, results: ctx.results }),
+    error,
+    done ? Date.now() : null,
+    executionId
+  ).run();
+  
+  for (const [index, step] of definition.steps.entries()) {
+    // Resuming: steps finished by an earlier attempt are not run again
+    if (step.name in ctx.results) {
+      continue;
     }
-  }),
+    
+    // Cancellation is cooperative: checked between steps
+    if ((await getWorkflowStatus(env, executionId)) === 'cancelled') {
+      return;
+    }
+    
+    steps[index] = { ...steps[index], status: 'running', startedAt: Date.now() };
+    await save('running');
+    
+    try {
+      const output = await step.run(ctx);
+      ctx.results[step.name] = output;
+      steps[index] = { ...steps[index], status: 'completed', completedAt: Date.now(), output };
+    } catch (error: any) {
+      steps[index] = { ...steps[index], status: 'failed', completedAt: Date.now(), error: error.message };
+      await save('failed', `Step ${step.name} failed: ${error.message}`, true);
+      return;
+    }
+  }
   
-  tool({
-    name: 'analyze_code',
-    description: 'Analyze code for quality, security issues, and best practices.',
-    parameters: {
-      type: 'object',
-      properties: {
-        code: {
-          type: 'string',
-          description: 'The code to analyze'
-        },
-        language: {
-          type: 'string',
-          description: 'Programming language (typescript, javascript, python, etc)'
+  await save('completed', null, true);
+  
+  env.ANALYTICS.writeDataPoint({
+    blobs: [userId, 'workflow_completed', type],
+    doubles: [definition.steps.length],
+    indexes: ['workflows']
+  });
+}
+
+async function startWorkflow(env: Env, userId: string, type: string, input: WorkflowInput) {
+  const definition = WORKFLOWS[type];
+  if (!definition) {
+    throw new Error(`Unknown workflow: ${type}. Available: ${Object.keys(WORKFLOWS).join(', ')}`);
+  }
+  
+  const invalid = definition.validate(input);
+  if (invalid) {
+    throw new Error(invalid);
+  }
+  
+  const executionId = crypto.randomUUID();
+  await env.AI_CHAT_DB.prepare(`
+    INSERT INTO workflow_executions (id, user_id, workflow_type, status, input, output, started_at)
+    VALUES (?, ?, ?, 'pending', ?, ?, ?)
+  `).bind(
+    executionId,
+    userId,
+    type,
+    JSON.stringify(input),
+    JSON.stringify({ steps: definition.steps.map(step => ({ name: step.name, status: 'pending' })), results: {} }),
+    Date.now()
+  ).run();
+  
+  // One object per run, so runs never queue behind each other
+  const run: WorkflowRun = { executionId, userId, type, input };
+  const stub = env.WORKFLOW_DO.get(env.WORKFLOW_DO.idFromName(executionId));
+  const response = await stub.fetch('https://workflow/start', {
+    method: 'POST',
+    body: JSON.stringify(run)
+  });
+  
+  if (!response.ok) {
+    await env.AI_CHAT_DB.prepare(
+      "UPDATE workflow_executions SET status = 'failed', error = ?, completed_at = ? WHERE id = ?"
+    ).bind('Workflow could not be scheduled', Date.now(), executionId).run();
+    throw new Error('Workflow could not be scheduled');
+  }
+  
+  env.ANALYTICS.writeDataPoint({
+    blobs: [userId, 'workflow_started', type],
+    doubles: [1],
+    indexes: ['workflows']
+  });
+  
+  return executionId;
+}
+
+function formatWorkflowExecution(row: Record<string, unknown>) {
+  return {
+    id: row.id,
+    type: row.workflow_type,
+    status: row.status,
+    input: row.input ? JSON.parse(row.input as string) : null,
+    output: row.output ? JSON.parse(row.output as string) : null,
+    error: row.error,
+    startedAt: row.started_at,
+    completedAt: row.completed_at
+  };
+}
+
+// Runs whose alarms gave up (or never fired) would otherwise stay running forever
+async function expireStaleWorkflows(env: Env, userId: string) {
+  await env.AI_CHAT_DB.prepare(`
+    UPDATE workflow_executions SET status = 'failed', error = ?, completed_at = ?
+    WHERE user_id = ? AND status IN ('pending', 'running') AND started_at < ?
+  `).bind(
+    `Workflow did not finish within ${WORKFLOW_TIMEOUT_MS / 60000} minutes`,
+    Date.now(),
+    userId,
+    Date.now() - WORKFLOW_TIMEOUT_MS
+  ).run();
+}
+
+async function getWorkflowExecution(env: Env, userId: string, executionId: string) {
+  await expireStaleWorkflows(env, userId);
+  const row = await env.AI_CHAT_DB.prepare(
+    'SELECT * FROM workflow_executions WHERE id = ? AND user_id = ?'
+  ).bind(executionId, userId).first();
+  return row ? formatWorkflowExecution(row) : null;
+}
+
+// ==================== SNIPPETS ====================
+const SNIPPET_PAGE_SIZE = 50;
+
+type SnippetInput = {
+  title?: string;
+  description?: string;
+  code?: string;
+  language?: string;
+  tags?: string[];
+  isPublic?: boolean;
+};
+
+type SnippetFilters = {
+  query?: string;
+  language?: string;
+  tag?: string;
+  scope?: 'mine' | 'public';
+  limit?: number;
+  offset?: number;
+};
+
+function formatSnippet(row: Record<string, unknown>) {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    author: row.author,
+    title: row.title,
+    description: row.description,
+    code: row.code,
+    language: row.language,
+    tags: row.tags ? JSON.parse(row.tags as string) : [],
+    isPublic: Boolean(row.is_public),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+function normalizeTags(tags: unknown): string[] {
+  if (!Array.isArray(tags)) {
+    return [];
+  }
+  return [...new Set(tags.map(tag => String(tag).trim().toLowerCase()).filter(Boolean))].slice(0, 20);
+}
+
+// Turns free text into an FTS5 query: every word must match, as a prefix
+function toFtsQuery(text: string): string | null {
+  const terms = text.match(/[\p{L}\p{N}_]+/gu);
+  if (!terms) {
+    return null;
+  }
+  return terms.slice(0, 10).map(term => `"${term}"*`).join(' ');
+}
+
+// The raw row plus the owner's name, which every snippet response includes
+async function getSnippetRow(env: Env, id: string) {
+  return env.AI_CHAT_DB.prepare(`
+    SELECT s.*, u.name AS author FROM code_snippets s
+    JOIN users u ON u.id = s.user_id
+    WHERE s.id = ?
+  `).bind(id).first();
+}
+
+async function createSnippet(env: Env, userId: string, input: SnippetInput) {
+  if (!input.title?.trim() || !input.code?.trim() || !input.language?.trim()) {
+    throw new Error('title, code and language are required');
+  }
+  
+  const id = crypto.randomUUID();
+  await env.AI_CHAT_DB.prepare(`
+    INSERT INTO code_snippets (id, user_id, title, description, code, language, tags, created_at, updated_at, is_public)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    id,
+    userId,
+    input.title.trim().slice(0, 200),
+    input.description?.trim() || null,
+    input.code,
+    input.language.trim().toLowerCase(),
+    JSON.stringify(normalizeTags(input.tags)),
+    Date.now(),
+    Math.floor(Date.now() / 1000),
+    input.isPublic ? 1 : 0
+  ).run();
+  
+  return formatSnippet((await getSnippetRow(env, id))!);
+}
+
+async function searchSnippets(env: Env, userId: string | null, filters: SnippetFilters) {
+  const conditions: string[] = [];
+  const values: (string | number)[] = [];
+  let join = '';
+  let order = 's.updated_at DESC';
+  
+  if (filters.scope === 'public' || !userId) {
+    conditions.push('s.is_public = 1');
+  } else {
+    conditions.push('s.user_id = ?');
+    values.push(userId);
+  }
+  
+  if (filters.query) {
+    const ftsQuery = toFtsQuery(filters.query);
+    if (ftsQuery) {
+      join = 'JOIN code_snippets_fts f ON f.rowid = s.rowid';
+      conditions.push('code_snippets_fts MATCH ?');
+      values.push(ftsQuery);
+      order = 'f.rank';
+    }
+  }
+  
+  if (filters.language) {
+    conditions.push('s.language = ?');
+    values.push(filters.language.toLowerCase());
+  }
+  
+  if (filters.tag) {
+    conditions.push('EXISTS (SELECT 1 FROM json_each(s.tags) WHERE value = ?)');
+    values.push(filters.tag.toLowerCase());
+  }
+  
+  const limit = Math.min(Math.max(filters.limit || SNIPPET_PAGE_SIZE, 1), SNIPPET_PAGE_SIZE);
+  const offset = Math.max(filters.offset || 0, 0);
+  
+  const { results } = await env.AI_CHAT_DB.prepare(`
+    SELECT s.*, u.name AS author FROM code_snippets s
+    ${join}
+    JOIN users u ON u.id = s.user_id
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY ${order}
+    LIMIT ? OFFSET ?
+  `).bind(...values, limit, offset).all();
+  
+  return results.map(formatSnippet);
+}
+
+// ==================== USAGE ====================
+// Workers AI list prices in USD per million tokens
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  '@cf/meta/llama-3.1-8b-instruct': { input: 0.282, output: 0.827 },
+  '@cf/meta/llama-3.1-70b-instruct': { input: 0.293, output: 2.253 },
+  '@cf/meta/llama-3.3-70b-instruct-fp8-fast': { input: 0.293, output: 2.253 },
+  '@cf/meta/llama-3.2-1b-instruct': { input: 0.027, output: 0.201 },
+  '@hf/nousresearch/hermes-2-pro-mistral-7b': { input: 0.11, output: 0.19 },
+  '@cf/deepseek-ai/deepseek-r1-distill-qwen-32b': { input: 0.497, output: 4.881 },
+  '@cf/meta/llama-3.2-11b-vision-instruct': { input: 0.049, output: 0.676 }
+};
+
+const DEFAULT_PRICING = MODEL_PRICING['@cf/meta/llama-3.1-8b-instruct'];
+const ANALYTICS_DEFAULT_DAYS = 30;
+const ANALYTICS_MAX_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Same shape as the AI SDK's LanguageModelUsage, which the chat Context meter reads
+type TokenUsage = {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+};
+
+// How full the model's context window was on the last call
+type ContextWindow = {
+  usedTokens: number;
+  maxTokens: number;
+};
+
+// Token counts as reported by Workers AI text generation
+type AiUsage = {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+};
+
+type UsageEntry = {
+  userId: string;
+  action: 'chat' | 'tool';
+  resource: string;
+  tokensUsed?: number;
+  cost?: number;
+  metadata?: Record<string, unknown>;
+};
+
+function estimateCost(model: string, usage: TokenUsage): number {
+  const pricing = MODEL_PRICING[model] || DEFAULT_PRICING;
+  return (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1_000_000;
+}
+
+// Prefers the counts Workers AI reports and falls back to the local estimate
+function resolveTokenUsage(reported: AiUsage | undefined, messages: ChatMessage[], completion: string): TokenUsage {
+  const inputTokens = reported?.prompt_tokens ?? messages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+  const outputTokens = reported?.completion_tokens ?? estimateTokens(completion);
+  
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: inputTokens + outputTokens
+  };
+}
+
+// Usage logging must never fail the request it describes
+async function recordUsage(env: Env, entry: UsageEntry) {
+  try {
+    await env.AI_CHAT_DB.prepare(`
+      INSERT INTO usage_logs (id, user_id, action, resource, tokens_used, cost, timestamp, metadata)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      crypto.randomUUID(),
+      entry.userId,
+      entry.action,
+      entry.resource,
+      entry.tokensUsed || 0,
+      entry.cost || 0,
+      Date.now(),
+      entry.metadata ? JSON.stringify(entry.metadata) : null
+    ).run();
+    
+    if (entry.tokensUsed) {
+      await addQuotaUsage(env, entry.userId, 'tokens', entry.tokensUsed);
+    }
+  } catch (error) {
+    console.error('Failed to record usage:', error);
+  }
+}
+
+// Wraps every tool so each call writes a usage_logs row, whichever agent loop runs it.
+// Tools listed in QUOTA_TOOLS are refused once the user's daily quota is used up.
+function trackToolUsage<T extends { name: string; function?: (args: never) => Promise<unknown> }>(env: Env, userId: string, tools: T[]): T[] {
+  return tools.map(t => {
+    const run = t.function;
+    if (!run) {
+      return t;
+    }
+    
+    return {
+      ...t,
+      function: async (args: never) => {
+        const metric = QUOTA_TOOLS[t.name];
+        if (metric) {
+          const exceeded = await checkQuota(env, userId, getUserLimits(await loadUserSettings(env, userId)), metric);
+          if (exceeded) {
+            return {
+              error: `Daily ${metric} quota reached (${exceeded.used}/${exceeded.max}). Try again in ${Math.ceil(exceeded.retryAfter / 3600)} hours.`,
+              code: 'rate_limited',
+              ...exceeded
+            };
+          }
         }
-      },
-      required: ['code']
-    },
-    function: async ({ code, language }: { code: string; language?: string }) => {
-      try {
-        const analysis = await env.AI.run('@cf/meta/llama-3.1-8b-instruct', {
-          messages: [
-            {
-              role: 'system',
-              content: 'You are a code review expert. Analyze the code for bugs, security issues, performance problems, and style issues. Provide specific, actionable feedback.'
-            },
-            {
-              role: 'user',
-              content: `Language: ${language || 'unknown'}\n\nCode:\n${code}`
-            }
-          ]
-        });
         
-        env.ANALYTICS.writeDataPoint({
-          blobs: [userId, 'analyze_code', language || 'unknown'],
-          doubles: [1],
-          indexes: ['tool_usage']
-        });
+        const startedAt = Date.now();
+        let success = false;
         
-        return {
-          success: true,
-          analysis: analysis.response,
-          language: language || 'unknown'
-        };
-      } catch (error: any) {
-        return { error: error.message };
+        try {
+          const result = await run(args);
+          success = !(result && typeof result === 'object' && 'error' in result);
+          if (success && metric) {
+            await addQuotaUsage(env, userId, metric, 1);
+          }
+          return result;
+        } finally {
+          await recordUsage(env, {
+            userId,
+            action: 'tool',
+            resource: t.name,
+            metadata: { success, durationMs: Date.now() - startedAt }
+          });
+        }
       }
+    } as T;
+  });
+}
+
+function parseAnalyticsRange(from?: string, to?: string, days?: string) {
+  const parse = (value?: string) => {
+    if (!value) {
+      return NaN;
     }
-  }),
+    return /^\d+$/.test(value) ? parseInt(value, 10) : Date.parse(value);
+  };
   
-  tool({
-    name: 'save_to_storage',
-    description: 'Save a file to R2 storage. Returns the file URL.',
-    parameters: {
-      type: 'object',
-      properties: {
-        filename: {
-          type: 'string',
-          description: 'Name of the file'
-        },
-        content: {
-          type: 'string',
-          description: 'File content (text or base64 for binary)'
-        },
-        contentType: {
-          type: 'string',
-          description: 'MIME type of the file'
-        }
-      },
-      required: ['filename', 'content']
+  const end = parse(to);
+  const rangeEnd = Number.isNaN(end) ? Date.now() : end;
+  const start = parse(from);
+  const span = Math.min(Math.max(parseInt(days || '', 10) || ANALYTICS_DEFAULT_DAYS, 1), ANALYTICS_MAX_DAYS);
+  const rangeStart = Number.isNaN(start) ? rangeEnd - span * DAY_MS : start;
+  
+  if (rangeStart > rangeEnd || rangeEnd - rangeStart > ANALYTICS_MAX_DAYS * DAY_MS) {
+    return null;
+  }
+  
+  return { from: rangeStart, to: rangeEnd };
+}
+
+async function getUsageAnalytics(env: Env, userId: string, from: number, to: number) {
+  const scope = 'user_id = ? AND timestamp >= ? AND timestamp <= ?';
+  const [totals, byModel, byTool, byDay] = await env.AI_CHAT_DB.batch([
+    env.AI_CHAT_DB.prepare(`
+      SELECT
+        SUM(CASE WHEN action = 'chat' THEN 1 ELSE 0 END) AS requests,
+        SUM(CASE WHEN action = 'tool' THEN 1 ELSE 0 END) AS tool_calls,
+        COALESCE(SUM(tokens_used), 0) AS tokens,
+        COALESCE(SUM(cost), 0) AS cost
+      FROM usage_logs WHERE ${scope}
+    `).bind(userId, from, to),
+    env.AI_CHAT_DB.prepare(`
+      SELECT resource AS model, COUNT(*) AS requests, SUM(tokens_used) AS tokens, SUM(cost) AS cost
+      FROM usage_logs WHERE ${scope} AND action = 'chat'
+      GROUP BY resource ORDER BY tokens DESC
+    `).bind(userId, from, to),
+    env.AI_CHAT_DB.prepare(`
+      SELECT resource AS tool, COUNT(*) AS calls,
+        SUM(CASE WHEN json_extract(metadata, '$.success') = 0 THEN 1 ELSE 0 END) AS errors
+      FROM usage_logs WHERE ${scope} AND action = 'tool'
+      GROUP BY resource ORDER BY calls DESC
+    `).bind(userId, from, to),
+    env.AI_CHAT_DB.prepare(`
+      SELECT date(timestamp / 1000, 'unixepoch') AS day,
+        SUM(CASE WHEN action = 'chat' THEN 1 ELSE 0 END) AS requests,
+        SUM(CASE WHEN action = 'tool' THEN 1 ELSE 0 END) AS tool_calls,
+        SUM(tokens_used) AS tokens,
+        SUM(cost) AS cost
+      FROM usage_logs WHERE ${scope}
+      GROUP BY day ORDER BY day
+    `).bind(userId, from, to)
+  ]);
+  
+  const rows = (result: D1Result) => result.results as Record<string, number | string | null>[];
+  const summary = rows(totals)[0] || {};
+  const days = new Map(rows(byDay).map(row => [row.day as string, row]));
+  
+  // Fill gaps so charts get one point per day (UTC)
+  const timeline = [];
+  for (let day = Math.floor(from / DAY_MS) * DAY_MS; day <= to; day += DAY_MS) {
+    const key = new Date(day).toISOString().slice(0, 10);
+    const row = days.get(key);
+    timeline.push({
+      day: key,
+      requests: row?.requests || 0,
+      toolCalls: row?.tool_calls || 0,
+      tokens: row?.tokens || 0,
+      cost: row?.cost || 0
+    });
+  }
+  
+  return {
+    range: { from, to },
+    totals: {
+      requests: summary.requests || 0,
+      toolCalls: summary.tool_calls || 0,
+      tokens: summary.tokens || 0,
+      cost: summary.cost || 0
     },
-    function: async ({ filename, content, contentType }: {
-      filename: string;
-      content: string;
-      contentType?: string;
-    }) => {
+    byModel: rows(byModel).map(row => ({
+      model: row.model,
+      requests: row.requests,
+      tokens: row.tokens || 0,
+      cost: row.cost || 0
+    })),
+    byTool: rows(byTool).map(row => ({
+      tool: row.tool,
+      calls: row.calls,
+      errors: row.errors || 0
+    })),
+    byDay: timeline
+  };
+}
+
+// ==================== QUOTAS ====================
+// Plan limits live in users.settings as { plan, limits }, where `limits`
+// overrides individual values of the plan. Counters are kept in KV per
+// time window; KV is not atomic, so concurrent requests can overshoot a
+// limit slightly, which is acceptable for abuse protection.
+type QuotaLimits = {
+  requestsPerMinute: number;
+  dailyTokens: number;
+  dailyImages: number;
+  dailyScreenshots: number;
+  storageBytes: number;
+};
+
+type QuotaMetric = 'requests' | 'tokens' | 'images' | 'screenshots';
+
+const PLAN_LIMITS: Record<string, QuotaLimits> = {
+  free: { requestsPerMinute: 10, dailyTokens: 200_000, dailyImages: 10, dailyScreenshots: 20, storageBytes: 100 * 1024 * 1024 },
+  pro: { requestsPerMinute: 60, dailyTokens: 2_000_000, dailyImages: 100, dailyScreenshots: 200, storageBytes: 5 * 1024 * 1024 * 1024 }
+};
+
+const QUOTA_LIMIT_KEYS: Record<QuotaMetric, keyof QuotaLimits> = {
+  requests: 'requestsPerMinute',
+  tokens: 'dailyTokens',
+  images: 'dailyImages',
+  screenshots: 'dailyScreenshots'
+};
+
+// Tools that count against a daily quota
+const QUOTA_TOOLS: Record<string, QuotaMetric> = {
+  generate_image: 'images',
+  screenshot: 'screenshots'
+};
+
+function getUserPlan(settings: AuthUser['settings']): string {
+  return typeof settings.plan === 'string' && PLAN_LIMITS[settings.plan] ? settings.plan : 'free';
+}
+
+function getUserLimits(settings: AuthUser['settings']): QuotaLimits {
+  const limits = { ...PLAN_LIMITS[getUserPlan(settings)] };
+  const overrides = (settings.limits || {}) as Partial<QuotaLimits>;
+  for (const key of Object.keys(limits) as (keyof QuotaLimits)[]) {
+    const override = overrides[key];
+    if (typeof override === 'number' && override >= 0) {
+      limits[key] = override;
+    }
+  }
+  return limits;
+}
+
+async function loadUserSettings(env: Env, userId: string): Promise<AuthUser['settings']> {
+  const user = await env.AI_CHAT_DB.prepare(
+    'SELECT settings FROM users WHERE id = ?'
+  ).bind(userId).first();
+  return JSON.parse((user?.settings as string) || '{}');
+}
+
+// Requests are counted per minute, everything else per UTC day
+function quotaWindow(metric: QuotaMetric, now = Date.now()) {
+  const size = metric === 'requests' ? 60 * 1000 : DAY_MS;
+  const start = Math.floor(now / size) * size;
+  return { start, resetAt: start + size };
+}
+
+function quotaKey(userId: string, metric: QuotaMetric, windowStart: number) {
+  return `quota:${userId}:${metric}:${windowStart}`;
+}
+
+async function getQuotaUsage(env: Env, userId: string, metric: QuotaMetric): Promise<number> {
+  const { start } = quotaWindow(metric);
+  return parseInt(await env.CHAT_SESSIONS.get(quotaKey(userId, metric, start)) || '0', 10);
+}
+
+async function addQuotaUsage(env: Env, userId: string, metric: QuotaMetric, amount: number) {
+  const { start, resetAt } = quotaWindow(metric);
+  const used = await getQuotaUsage(env, userId, metric);
+  
+  // KV requires at least a 60 second TTL
+  await env.CHAT_SESSIONS.put(quotaKey(userId, metric, start), String(used + amount), {
+    expirationTtl: Math.max(Math.ceil((resetAt - Date.now()) / 1000), 60)
+  });
+}
+
+// Returns null while under the limit, otherwise what was exceeded and when it resets
+async function checkQuota(env: Env, userId: string, limits: QuotaLimits, metric: QuotaMetric) {
+  const limit = limits[QUOTA_LIMIT_KEYS[metric]];
+  const used = await getQuotaUsage(env, userId, metric);
+  
+  if (used < limit) {
+    return null;
+  }
+  
+  const { resetAt } = quotaWindow(metric);
+  return {
+    limit: QUOTA_LIMIT_KEYS[metric],
+    used,
+    max: limit,
+    retryAfter: Math.max(Math.ceil((resetAt - Date.now()) / 1000), 1)
+  };
+}
+
+function tooManyRequests(c: Context<AppEnv>, exceeded: NonNullable<Awaited<ReturnType<typeof checkQuota>>>) {
+  c.header('Retry-After', String(exceeded.retryAfter));
+  return c.json({
+    error: `Quota exceeded: ${exceeded.limit} (${exceeded.used}/${exceeded.max})`,
+    code: 'rate_limited',
+    ...exceeded
+  }, 429);
+}
+
+// Counts the request and rejects it when the per-minute or daily token quota is used up.
+// Must run after requireAuth.
+const enforceQuota = createMiddleware<AppEnv>(async (c, next) => {
+  const userId = c.var.user.id;
+  const limits = getUserLimits(c.var.user.settings);
+  
+  for (const metric of ['requests', 'tokens'] as const) {
+    const exceeded = await checkQuota(c.env, userId, limits, metric);
+    if (exceeded) {
+      return tooManyRequests(c, exceeded);
+    }
+  }
+  
+  await addQuotaUsage(c.env, userId, 'requests', 1);
+  await next();
+});
+
+// ==================== FILE ACCESS ====================
+// R2 keys are `<folder>/<userId>/<name>`. Files are private to that user unless
+// they carry the `visibility: public` custom metadata; anyone else needs a
+// signed URL (`?expires=<unix seconds>&signature=<hmac>`).
+const FILE_FOLDERS = ['uploads', 'images', 'screenshots', 'files'];
+// Links embedded in chat messages live as long as the chat history itself
+const FILE_URL_TTL_SECONDS = 7 * 24 * 60 * 60;
+const FILE_SHARE_MAX_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+function getFileOwner(key: string): string | null {
+  const [folder, owner] = key.split('/');
+  return FILE_FOLDERS.includes(folder) && owner ? owner : null;
+}
+
+function filePath(key: string): string {
+  return `/api/files/${key.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+async function signFileKey(env: Env, key: string, expires: number): Promise<string> {
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    await getSigningKey(env),
+    new TextEncoder().encode(`file:${key}:${expires}`)
+  );
+  return base64UrlEncode(signature);
+}
+
+async function signFileUrl(env: Env, key: string, ttlSeconds = FILE_URL_TTL_SECONDS): Promise<string> {
+  const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+  return `${filePath(key)}?expires=${expires}&signature=${await signFileKey(env, key, expires)}`;
+}
+
+async function verifyFileSignature(env: Env, key: string, expires?: string, signature?: string): Promise<boolean> {
+  const expiresAt = parseInt(expires || '', 10);
+  if (!signature || !expiresAt || expiresAt <= Math.floor(Date.now() / 1000)) {
+    return false;
+  }
+  
+  try {
+    return await crypto.subtle.verify(
+      'HMAC',
+      await getSigningKey(env),
+      base64UrlDecode(signature),
+      new TextEncoder().encode(`file:${key}:${expiresAt}`)
+    );
+  } catch {
+    return false;
+  }
+}
+
+const FILE_LIST_LIMIT = 100;
+
+async function formatStoredFile(env: Env, object: R2Object) {
+  const [folder, , ...name] = object.key.split('/');
+  const isPublic = object.customMetadata?.visibility === 'public';
+  
+  return {
+    key: object.key,
+    name: name.join('/'),
+    folder,
+    size: object.size,
+    contentType: object.httpMetadata?.contentType || 'application/octet-stream',
+    createdAt: object.uploaded.getTime(),
+    public: isPublic,
+    url: isPublic ? filePath(object.key) : await signFileUrl(env, object.key)
+  };
+}
+
+async function listUserFiles(env: Env, userId: string, folder: string, cursor?: string, limit = FILE_LIST_LIMIT) {
+  const listing = await env.FILE_STORAGE.list({
+    prefix: `${folder}/${userId}/`,
+    cursor,
+    limit,
+    include: ['httpMetadata', 'customMetadata']
+  });
+  
+  return {
+    files: await Promise.all(listing.objects.map(object => formatStoredFile(env, object))),
+    cursor: listing.truncated ? listing.cursor : null
+  };
+}
+
+// Sums object sizes across every folder; R2 has no per-prefix totals
+async function getStorageUsage(env: Env, userId: string): Promise<number> {
+  let total = 0;
+  
+  for (const folder of FILE_FOLDERS) {
+    let cursor: string | undefined;
+    do {
+      const listing = await env.FILE_STORAGE.list({ prefix: `${folder}/${userId}/`, cursor });
+      total += listing.objects.reduce((sum, object) => sum + object.size, 0);
+      cursor = listing.truncated ? listing.cursor : undefined;
+    } while (cursor);
+  }
+  
+  return total;
+}
+
+// Returns null when `incomingBytes` still fits in the user's storage quota
+async function checkStorageQuota(env: Env, userId: string, settings: AuthUser['settings'], incomingBytes: number) {
+  const limit = getUserLimits(settings).storageBytes;
+  const used = await getStorageUsage(env, userId);
+  return used + incomingBytes > limit ? { used, limit } : null;
+}
+
+// Upload rules. Error codes match PromptInput's client-side checks.
+const UPLOAD_MAX_FILES = 5;
+const UPLOAD_MAX_FILE_SIZE = 10 * 1024 * 1024;
+const UPLOAD_SNIFF_BYTES = 8 * 1024;
+
+// Text has no magic number, so its type comes from the extension once the bytes are known to be text
+const UPLOAD_TEXT_TYPES: Record<string, string> = {
+  json: 'application/json',
+  md: 'text/markdown',
+  csv: 'text/csv'
+};
+
+type UploadErrorCode = 'max_files' | 'max_file_size' | 'accept';
+
+class UploadError extends Error {
+  code: UploadErrorCode;
+  status: 400 | 413 | 415;
+  
+  constructor(code: UploadErrorCode, message: string) {
+    super(message);
+    this.code = code;
+    this.status = code === 'max_file_size' ? 413 : code === 'accept' ? 415 : 400;
+  }
+}
+
+function startsWithBytes(bytes: Uint8Array, signature: (number | null)[], offset = 0): boolean {
+  return signature.every((byte, i) => byte === null || bytes[offset + i] === byte);
+}
+
+// Detects the content type from the file's leading bytes, ignoring whatever the client claimed
+function sniffContentType(bytes: Uint8Array, filename: string): string | null {
+  if (startsWithBytes(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'image/png';
+  }
+  if (startsWithBytes(bytes, [0xff, 0xd8, 0xff])) {
+    return 'image/jpeg';
+  }
+  if (startsWithBytes(bytes, [0x47, 0x49, 0x46, 0x38, null, 0x61])) {
+    return 'image/gif';
+  }
+  if (startsWithBytes(bytes, [0x52, 0x49, 0x46, 0x46]) && startsWithBytes(bytes, [0x57, 0x45, 0x42, 0x50], 8)) {
+    return 'image/webp';
+  }
+  if (startsWithBytes(bytes, [0x25, 0x50, 0x44, 0x46, 0x2d])) {
+    return 'application/pdf';
+  }
+  
+  const head = bytes.subarray(0, UPLOAD_SNIFF_BYTES);
+  if (head.includes(0)) {
+    return null;
+  }
+  try {
+    // A multi-byte character may be cut at the boundary; only the full file is checked strictly
+    new TextDecoder('utf-8', { fatal: true, ignoreBOM: false }).decode(bytes.length > UPLOAD_SNIFF_BYTES ? head.subarray(0, head.length - 4) : head);
+  } catch {
+    return null;
+  }
+  
+  const extension = filename.split('.').pop()?.toLowerCase() || '';
+  // HTML, SVG and other markup are deliberately stored as plain text
+  return UPLOAD_TEXT_TYPES[extension] || 'text/plain';
+}
+
+// Keeps the base name only, with a conservative character set and a bounded length
+function sanitizeFilename(name: string): string {
+  const base = name.split(/[/\\]/).pop() || '';
+  const cleaned = base
+    .normalize('NFKC')
+    .replace(/[^\p{L}\p{N}_.\- ]+/gu, '_')
+    .replace(/\s+/g, ' ')
+    .replace(/_{2,}/g, '_')
+    .replace(/^[.\s]+|[.\s]+$/g, '');
+  
+  if (!cleaned) {
+    return 'file';
+  }
+  
+  const dot = cleaned.lastIndexOf('.');
+  const extension = dot > 0 ? cleaned.slice(dot).slice(0, 16) : '';
+  const stem = dot > 0 ? cleaned.slice(0, dot) : cleaned;
+  return stem.slice(0, 100 - extension.length) + extension;
+}
+
+const UNIQUE_KEY_ATTEMPTS = 3;
+
+// Stores the file under its own name, or with a short random suffix when that
+// name is already taken in the folder. Writes are conditional (If-None-Match: *),
+// so concurrent uploads of the same name never overwrite each other. Returns the key.
+async function putUniqueFile(env: Env, folder: string, userId: string, filename: string, value: string | Uint8Array, options: R2PutOptions): Promise<string> {
+  const dot = filename.lastIndexOf('.');
+  const stem = dot > 0 ? filename.slice(0, dot) : filename;
+  const extension = dot > 0 ? filename.slice(dot) : '';
+  
+  for (let attempt = 0; attempt < UNIQUE_KEY_ATTEMPTS; attempt++) {
+    const key = attempt === 0
+      ? `${folder}/${userId}/${filename}`
+      : `${folder}/${userId}/${stem}-${crypto.randomUUID().slice(0, 8)}${extension}`;
+    // put resolves to null when the precondition fails
+    if (await env.FILE_STORAGE.put(key, value, { ...options, onlyIf: new Headers({ 'If-None-Match': '*' }) })) {
+      return key;
+    }
+  }
+  
+  throw new Error(`Could not find a free name for ${filename}`);
+}
+
+async function validateUpload(file: File) {
+  if (file.size > UPLOAD_MAX_FILE_SIZE) {
+    throw new UploadError('max_file_size', `${file.name} is larger than ${UPLOAD_MAX_FILE_SIZE / 1024 / 1024} MB`);
+  }
+  
+  const filename = sanitizeFilename(file.name);
+  const data = new Uint8Array(await file.arrayBuffer());
+  const contentType = sniffContentType(data, filename);
+  
+  if (!contentType) {
+    throw new UploadError('accept', `${file.name} is not a supported file type (images, PDF and text files only)`);
+  }
+  
+  return { filename, data, contentType };
+}
+
+// ==================== TOOLS IMPLEMENTATION ====================
+type ToolParameters = Parameters<typeof tool>[0]['parameters'];
+
+// ToolsSchema types a tool's result as a string, but runWithTools JSON-encodes
+// whatever the function resolves to. Our tools resolve to objects and report
+// failures as { error }, which trackToolUsage and invokeTool rely on.
+function objectTool<T extends ToolParameters>(definition: Omit<ToolsSchema<T>, 'function'> & {
+  function: (args: Parameters<NonNullable<ToolsSchema<T>['function']>>[0]) => Promise<object>;
+}): ToolsSchema<T> {
+  return tool({ ...definition, function: definition.function as unknown as ToolsSchema<T>['function'] });
+}
+
+const createTools = (env: Env, userId: string) => trackToolUsage(env, userId, [
+  tool({
+    name: 'screenshot',
+    description: 'Capture a screenshot of any website. Returns base64 image data.',
+    parameters: {
+      type: 'object',
+      properties: {
+        url: {
+          type: 'string',
+          description: 'The URL of the website to screenshot'
+        },
+        fullPage: {
+          type: 'boolean',
+          description: 'Whether to capture the full page or just viewport'
+        }
+      },
+      required: ['url']
+    },
+    function: async ({ url, fullPage }: { url: string; fullPage?: boolean }) => {
       try {
-        const key = `files/${userId}/${Date.now()}-${filename}`;
-        await env.FILE_STORAGE.put(key, content, {
-          httpMetadata: {
-            contentType: contentType || 'application/octet-stream'
-          }
+        const browser = await puppeteer.launch(env.MYBROWSER);
+        const page = await browser.newPage();
+        await page.goto(url, { waitUntil: 'networkidle0' });
+        
+        const screenshot = await page.screenshot({
+          fullPage: fullPage || false,
+          type: 'jpeg',
+          quality: 80
+        });
+        
+        await browser.close();
+        
+        const overQuota = await checkStorageQuota(env, userId, await loadUserSettings(env, userId), screenshot.byteLength);
+        if (overQuota) {
+          return { error: `Storage quota exceeded (${overQuota.used} of ${overQuota.limit} bytes used)`, code: 'storage_quota' };
+        }
+        
+        // Store in R2
+        const key = `screenshots/${userId}/${Date.now()}.jpg`;
+        await env.FILE_STORAGE.put(key, screenshot, {
+          httpMetadata: { contentType: 'image/jpeg' }
         });
         
         env.ANALYTICS.writeDataPoint({
-          blobs: [userId, 'save_file', filename],
-          doubles: [content.length],
+          blobs: [userId, 'screenshot', url],
+          doubles: [1],
           indexes: ['tool_usage']
         });
         
         return {
           success: true,
-          url: `/api/files/${key}`,
-          key
+          url: await signFileUrl(env, key),
+          key,
+          data: Buffer.from(screenshot).toString('base64').slice(0, 1000) + '...'
         };
       } catch (error: any) {
         return { error: error.message };
@@ -396,39 +1744,34 @@ const createTools = (env: Env, userId: string) => [
   }),
   
   tool({
-    name: 'query_database',
-    description: 'Execute a SQL query on the D1 database. Use for data retrieval.',
+    name: 'web_search',
+    description: 'Search the web for current information using AI-powered search.',
     parameters: {
       type: 'object',
       properties: {
         query: {
           type: 'string',
-          description: 'SQL query to execute'
-        },
-        params: {
-          type: 'array',
-          description: 'Query parameters for prepared statements'
+          description: 'The search query'
         }
       },
       required: ['query']
     },
-    function: async ({ query, params }: { query: string; params?: any[] }) => {
+    function: async ({ query }: { query: string }) => {
       try {
-        const stmt = env.AI_CHAT_DB.prepare(query);
-        const result = params
-          ? await stmt.bind(...params).all()
-          : await stmt.all();
+        const answer = await env.AI.autorag('wave').aiSearch({
+          query: query,
+        });
         
         env.ANALYTICS.writeDataPoint({
-          blobs: [userId, 'database_query', query.substring(0, 50)],
-          doubles: [result.results.length],
+          blobs: [userId, 'web_search', query],
+          doubles: [1],
           indexes: ['tool_usage']
         });
         
         return {
           success: true,
-          results: result.results,
-          count: result.results.length
+          results: answer,
+          query
         };
       } catch (error: any) {
         return { error: error.message };
@@ -437,18 +1780,385 @@ const createTools = (env: Env, userId: string) => [
   }),
   
   tool({
-    name: 'get_ai_models',
-    description: 'Get list of available AI models with their capabilities and pricing.',
+    name: 'generate_image',
+    description: 'Generate an image using AI based on a text prompt.',
     parameters: {
       type: 'object',
       properties: {
-        category: {
+        prompt: {
           type: 'string',
-          description: 'Filter by category: text-generation, text-to-image, speech-recognition, etc'
+          description: 'The text description of the image to generate'
+        },
+        steps: {
+          type: 'number',
+          description: 'Number of diffusion steps (1-8, default 4)'
+        }
+      },
+      required: ['prompt']
+    },
+    function: async ({ prompt, steps }: { prompt: string; steps?: number }) => {
+      try {
+        const response = await env.AI.run('@cf/black-forest-labs/flux-1-schnell', {
+          prompt,
+          steps: steps || 4,
+          seed: Math.floor(Math.random() * 10000)
+        });
+        
+        const imageData = Buffer.from(response.image, 'base64');
+        const overQuota = await checkStorageQuota(env, userId, await loadUserSettings(env, userId), imageData.byteLength);
+        if (overQuota) {
+          return { error: `Storage quota exceeded (${overQuota.used} of ${overQuota.limit} bytes used)`, code: 'storage_quota' };
         }
+        
+        // Store in R2
+        const key = `images/${userId}/${Date.now()}.jpg`;
+        await env.FILE_STORAGE.put(key, imageData, {
+          httpMetadata: { contentType: 'image/jpeg' }
+        });
+        
+        env.ANALYTICS.writeDataPoint({
+          blobs: [userId, 'generate_image', prompt],
+          doubles: [1],
+          indexes: ['tool_usage']
+        });
+        
+        return {
+          success: true,
+          url: await signFileUrl(env, key),
+          key,
+          prompt
+        };
+      } catch (error: any) {
+        return { error: error.message };
       }
+    }
+  }),
+  
+  tool({
+    name: 'analyze_code',
+    description: 'Analyze code for quality, security issues, and best practices.',
+    parameters: {
+      type: 'object',
+      properties: {
+        code: {
+          type: 'string',
+          description: 'The code to analyze'
+        },
+        language: {
+          type: 'string',
+          description: 'Programming language (typescript, javascript, python, etc)'
+        }
+      },
+      required: ['code']
     },
-    function: async ({ category }: { category?: string }) => {
+    function: async ({ code, language }: { code: string; language?: string }) => {
+      try {
+        const analysis = await env.AI.run('@cf/meta/llama-3.1-8b-instruct', {
+          messages: [
+            {
+              role: 'system',
+              content: 'You are a code review expert. Analyze the code for bugs, security issues, performance problems, and style issues. Provide specific, actionable feedback.'
+            },
+            {
+              role: 'user',
+              content: `Language: ${language || 'unknown'}\n\nCode:\n${code}`
+            }
+          ]
+        });
+        
+        env.ANALYTICS.writeDataPoint({
+          blobs: [userId, 'analyze_code', language || 'unknown'],
+          doubles: [1],
+          indexes: ['tool_usage']
+        });
+        
+        return {
+          success: true,
+          analysis: analysis.response,
+          language: language || 'unknown'
+        };
+      } catch (error: any) {
+        return { error: error.message };
+      }
+    }
+  }),
+  
+  objectTool({
+    name: 'execute_workflow',
+    description: `Start a multi-step workflow in the background. Returns an executionId to check with get_workflow_status. Workflows: ${Object.entries(WORKFLOWS).map(([name, w]) => `${name} (${w.description})`).join('; ')}`,
+    parameters: {
+      type: 'object',
+      properties: {
+        workflow: {
+          type: 'string',
+          description: 'Workflow name, e.g. code_review'
+        },
+        code: {
+          type: 'string',
+          description: 'The code to process'
+        },
+        language: {
+          type: 'string',
+          description: 'Programming language of the code'
+        }
+      },
+      required: ['workflow', 'code']
+    },
+    function: async ({ workflow, code, language }: { workflow: string; code: string; language?: string }) => {
+      try {
+        const executionId = await startWorkflow(env, userId, workflow, { code, language });
+        return {
+          success: true,
+          executionId,
+          status: 'pending',
+          message: 'Workflow started. Call get_workflow_status with the executionId to see progress.'
+        };
+      } catch (error: any) {
+        return { error: error.message };
+      }
+    }
+  }),
+  
+  objectTool({
+    name: 'get_workflow_status',
+    description: 'Check the status and results of a workflow started with execute_workflow.',
+    parameters: {
+      type: 'object',
+      properties: {
+        executionId: {
+          type: 'string',
+          description: 'The executionId returned by execute_workflow'
+        }
+      },
+      required: ['executionId']
+    },
+    function: async ({ executionId }: { executionId: string }) => {
+      try {
+        const execution = await getWorkflowExecution(env, userId, executionId);
+        if (!execution) {
+          return { error: `No workflow execution found with id ${executionId}` };
+        }
+        return { success: true, ...execution };
+      } catch (error: any) {
+        return { error: error.message };
+      }
+    }
+  }),
+  
+  objectTool({
+    name: 'save_snippet',
+    description: 'Save a piece of code to the user\'s snippet library so it can be found and reused later.',
+    parameters: {
+      type: 'object',
+      properties: {
+        title: {
+          type: 'string',
+          description: 'Short descriptive title'
+        },
+        code: {
+          type: 'string',
+          description: 'The code to save'
+        },
+        language: {
+          type: 'string',
+          description: 'Programming language (typescript, javascript, python, sql, etc)'
+        },
+        description: {
+          type: 'string',
+          description: 'What the code does and when to use it'
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Keywords for finding the snippet later'
+        }
+      },
+      required: ['title', 'code', 'language']
+    },
+    function: async (input: { title: string; code: string; language: string; description?: string; tags?: string[] }) => {
+      try {
+        const snippet = await createSnippet(env, userId, input);
+        
+        env.ANALYTICS.writeDataPoint({
+          blobs: [userId, 'save_snippet', snippet.language as string],
+          doubles: [input.code.length],
+          indexes: ['tool_usage']
+        });
+        
+        return { success: true, id: snippet.id, title: snippet.title };
+      } catch (error: any) {
+        return { error: error.message };
+      }
+    }
+  }),
+  
+  objectTool({
+    name: 'search_snippets',
+    description: 'Search the user\'s snippet library for previously saved code.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Words to search for in titles, descriptions, code and tags'
+        },
+        language: {
+          type: 'string',
+          description: 'Only return snippets in this language'
+        },
+        tag: {
+          type: 'string',
+          description: 'Only return snippets with this tag'
+        }
+      },
+      required: []
+    },
+    function: async ({ query, language, tag }: { query?: string; language?: string; tag?: string }) => {
+      try {
+        const snippets = await searchSnippets(env, userId, { query, language, tag, limit: 10 });
+        
+        env.ANALYTICS.writeDataPoint({
+          blobs: [userId, 'search_snippets', query || ''],
+          doubles: [snippets.length],
+          indexes: ['tool_usage']
+        });
+        
+        return {
+          success: true,
+          count: snippets.length,
+          snippets: snippets.map(({ id, title, description, language, tags, code }) => ({ id, title, description, language, tags, code }))
+        };
+      } catch (error: any) {
+        return { error: error.message };
+      }
+    }
+  }),
+  
+  tool({
+    name: 'save_to_storage',
+    description: 'Save a file to R2 storage. Returns the file URL.',
+    parameters: {
+      type: 'object',
+      properties: {
+        filename: {
+          type: 'string',
+          description: 'Name of the file'
+        },
+        content: {
+          type: 'string',
+          description: 'File content (text or base64 for binary)'
+        },
+        contentType: {
+          type: 'string',
+          description: 'MIME type of the file'
+        }
+      },
+      required: ['filename', 'content']
+    },
+    function: async ({ filename, content, contentType }: {
+      filename: string;
+      content: string;
+      contentType?: string;
+    }) => {
+      try {
+        const size = new TextEncoder().encode(content).length;
+        const overQuota = await checkStorageQuota(env, userId, await loadUserSettings(env, userId), size);
+        if (overQuota) {
+          return { error: `Storage quota exceeded (${overQuota.used} of ${overQuota.limit} bytes used)`, code: 'storage_quota' };
+        }
+        
+        const key = await putUniqueFile(env, 'files', userId, sanitizeFilename(filename), content, {
+          httpMetadata: {
+            contentType: contentType || 'application/octet-stream'
+          }
+        });
+        
+        env.ANALYTICS.writeDataPoint({
+          blobs: [userId, 'save_file', filename],
+          doubles: [content.length],
+          indexes: ['tool_usage']
+        });
+        
+        return {
+          success: true,
+          url: await signFileUrl(env, key),
+          key
+        };
+      } catch (error: any) {
+        return { error: error.message };
+      }
+    }
+  }),
+  
+  tool({
+    name: 'query_database',
+    description: `Run a read-only SQL SELECT on the D1 database. Only your own rows are visible and at most ${SQL_MAX_ROWS} rows are returned. Tables: ${Object.entries(SQL_TABLES).map(([table, { columns }]) => `${table}(${columns.join(', ')})`).join('; ')}`,
+    parameters: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'A single SQL SELECT statement, using ? placeholders for values'
+        },
+        params: {
+          type: 'array',
+          description: 'Query parameters for prepared statements'
+        }
+      },
+      required: ['query']
+    },
+    function: async ({ query, params }: { query: string; params?: any[] }) => {
+      try {
+        const guarded = guardSqlQuery(query, userId);
+        if (!guarded.ok) {
+          // Structured so the model can correct the query and retry
+          return {
+            error: `Query rejected: ${guarded.reason}`,
+            code: 'QUERY_REJECTED',
+            reason: guarded.reason,
+            hint: guarded.hint,
+            allowedTables: Object.fromEntries(
+              Object.entries(SQL_TABLES).map(([table, { columns }]) => [table, columns])
+            )
+          };
+        }
+        
+        const stmt = env.AI_CHAT_DB.prepare(guarded.sql);
+        const result = params
+          ? await stmt.bind(...params).all()
+          : await stmt.all();
+        
+        env.ANALYTICS.writeDataPoint({
+          blobs: [userId, 'database_query', query.substring(0, 50)],
+          doubles: [result.results.length],
+          indexes: ['tool_usage']
+        });
+        
+        return {
+          success: true,
+          results: result.results,
+          count: result.results.length,
+          truncated: result.results.length === SQL_MAX_ROWS
+        };
+      } catch (error: any) {
+        return { error: error.message };
+      }
+    }
+  }),
+  
+  tool({
+    name: 'get_ai_models',
+    description: 'Get list of available AI models with their capabilities and pricing.',
+    parameters: {
+      type: 'object',
+      properties: {
+        category: {
+          type: 'string',
+          description: 'Filter by category: text-generation, text-to-image, speech-recognition, etc'
+        }
+      }
+    },
+    function: async ({ category }: { category?: string }) => {
       const models = {
         'text-generation': [
           '@cf/meta/llama-3.1-8b-instruct',
@@ -482,340 +2192,2199 @@ const createTools = (env: Env, userId: string) => [
         total: Object.values(result).flat().length
       };
     }
-  })
-];
+  })
+]);
+
+// ==================== SESSION OWNERSHIP ====================
+// chat_sessions is the ownership index for the KV histories stored under chat:{id}.
+async function getSessionOwner(env: Env, sessionId: string): Promise<string | null> {
+  const row = await env.AI_CHAT_DB.prepare(
+    'SELECT user_id FROM chat_sessions WHERE id = ?'
+  ).bind(sessionId).first();
+  return row ? row.user_id as string : null;
+}
+
+// Registers the session for userId on first use. Returns false when the id is
+// already owned by someone else, or is a legacy KV history nobody has claimed.
+async function claimSession(env: Env, sessionId: string, userId: string, model: string): Promise<boolean> {
+  const owner = await getSessionOwner(env, sessionId);
+  if (owner) {
+    return owner === userId;
+  }
+  
+  if (await env.CHAT_SESSIONS.get(`chat:${sessionId}`)) {
+    return false;
+  }
+  
+  await env.AI_CHAT_DB.prepare(`
+    INSERT INTO chat_sessions (id, user_id, created_at, model, message_count)
+    VALUES (?, ?, ?, ?, 0)
+    ON CONFLICT(id) DO NOTHING
+  `).bind(sessionId, userId, Date.now(), model).run();
+  
+  // Re-read in case a concurrent request claimed it first
+  return (await getSessionOwner(env, sessionId)) === userId;
+}
+
+const TITLE_MODEL = '@cf/meta/llama-3.2-1b-instruct';
+
+async function recordSessionActivity(env: Env, sessionId: string, userId: string, model: string, messageCount: number) {
+  await env.AI_CHAT_DB.prepare(`
+    INSERT INTO chat_sessions (id, user_id, created_at, updated_at, model, message_count)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      updated_at = excluded.updated_at,
+      model = excluded.model,
+      message_count = excluded.message_count
+    WHERE chat_sessions.user_id = excluded.user_id
+  `).bind(sessionId, userId, Date.now(), Math.floor(Date.now() / 1000), model, messageCount).run();
+}
+
+// Names the session after its first exchange, using a small model to keep it cheap
+async function generateSessionTitle(env: Env, sessionId: string, userMessage: string, assistantMessage: string) {
+  try {
+    const result = await env.AI.run(TITLE_MODEL, {
+      messages: [
+        {
+          role: 'system',
+          content: 'Write a short title (max 6 words) for this conversation. Reply with the title only, no quotes or punctuation at the end.'
+        },
+        {
+          role: 'user',
+          content: `User: ${userMessage.slice(0, 1000)}\n\nAssistant: ${assistantMessage.slice(0, 1000)}`
+        }
+      ],
+      max_tokens: 24
+    }) as { response?: string };
+    
+    const title = result.response
+      ?.trim()
+      .split('\n')[0]
+      .replace(/^["'#*\s]+|["'.*\s]+$/g, '')
+      .slice(0, 80);
+    
+    if (!title) {
+      return;
+    }
+    
+    await env.AI_CHAT_DB.prepare(
+      'UPDATE chat_sessions SET title = ? WHERE id = ? AND title IS NULL'
+    ).bind(title, sessionId).run();
+  } catch (error) {
+    console.error('Title generation error:', error);
+  }
+}
+
+// ==================== CONTEXT WINDOW ====================
+const DEFAULT_CONTEXT_TOKENS = 4096;
+const RESPONSE_TOKEN_RESERVE = 1024;
+const MESSAGE_OVERHEAD_TOKENS = 4; // role markers and separators per message
+const SUMMARY_MODEL = '@cf/meta/llama-3.1-8b-instruct';
+
+// Context lengths as served by Workers AI, which can be lower than upstream
+const MODEL_CONTEXT_TOKENS: Record<string, number> = {
+  '@cf/meta/llama-3.1-8b-instruct': 7968,
+  '@cf/meta/llama-3.1-70b-instruct': 24000,
+  '@cf/meta/llama-3.3-70b-instruct-fp8-fast': 24000,
+  '@hf/nousresearch/hermes-2-pro-mistral-7b': 24000,
+  '@cf/deepseek-ai/deepseek-r1-distill-qwen-32b': 80000,
+  '@cf/meta/llama-3.2-11b-vision-instruct': 128000
+};
+
+type ChatMessage = {
+  role: string;
+  content: string;
+  name?: string;
+  timestamp?: number;
+  attachments?: Attachment[];
+  images?: ImageInput[];
+};
+
+// A history entry as kept in KV: the message plus what the chat routes record about it
+type StoredMessage = ChatMessage & {
+  model?: string;
+  usage?: TokenUsage;
+  costUSD?: number;
+  contextTokens?: number;
+  tools?: ToolInvocation[];
+  truncated?: boolean;
+};
+
+function getContextTokens(model: string): number {
+  return MODEL_CONTEXT_TOKENS[model] || DEFAULT_CONTEXT_TOKENS;
+}
+
+// BPE-style estimate: common words are ~1 token, long identifiers split every
+// ~4 chars, and each symbol is its own token. Errs high for code, which is the
+// case where underestimating hurts.
+function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const piece of text.match(/[A-Za-z]+|\d+|[^\sA-Za-z\d]/g) || []) {
+    tokens += /^[A-Za-z]/.test(piece) ? Math.ceil(piece.length / 4) : /^\d/.test(piece) ? Math.ceil(piece.length / 3) : 1;
+  }
+  return tokens + Math.ceil((text.match(/\n/g) || []).length / 2);
+}
+
+function estimateMessageTokens(message: ChatMessage): number {
+  return estimateTokens(renderMessageContent(message)) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+function truncateToTokens(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) {
+    return text;
+  }
+  // Binary search on length since the estimate isn't linear in characters
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (estimateTokens(text.slice(0, mid)) <= maxTokens) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return `${text.slice(0, low)}\n\n[...truncated to fit the context window]`;
+}
+
+async function summarizeTurns(env: Env, previousSummary: string | null, turns: ChatMessage[]): Promise<string> {
+  const transcript = turns
+    .map(turn => `${turn.role.toUpperCase()}: ${truncateToTokens(turn.content || '', 600)}`)
+    .join('\n\n');
+  
+  const result = await env.AI.run(SUMMARY_MODEL, {
+    messages: [
+      {
+        role: 'system',
+        content: 'You maintain a running summary of a coding conversation. Merge the previous summary with the new turns. Keep decisions, requirements, file and function names, APIs, and unresolved questions. Drop pleasantries. Use terse bullet points, at most 300 words.'
+      },
+      {
+        role: 'user',
+        content: `Previous summary:\n${previousSummary || '(none)'}\n\nNew turns:\n${transcript}`
+      }
+    ],
+    max_tokens: 512
+  }) as { response?: string };
+  
+  return result.response?.trim() || previousSummary || '';
+}
+
+// Builds the prompt for a model: system prompt, rolling summary of older turns,
+// then as many recent turns as fit the model's token budget. Turns that fall
+// out of the window are folded into the summary stored on chat_sessions.
+async function buildContextMessages(env: Env, sessionId: string, history: ChatMessage[], model: string, systemPrompt = SYSTEM_PROMPT) {
+  const row = await env.AI_CHAT_DB.prepare(
+    'SELECT summary, summary_message_count FROM chat_sessions WHERE id = ?'
+  ).bind(sessionId).first();
+  
+  let summary = (row?.summary as string | null) || null;
+  let summarizedCount = Math.min((row?.summary_message_count as number) || 0, history.length);
+  
+  const budget = getContextTokens(model) - RESPONSE_TOKEN_RESERVE - estimateTokens(systemPrompt) - MESSAGE_OVERHEAD_TOKENS;
+  const summaryTokens = () => summary ? estimateTokens(summary) + MESSAGE_OVERHEAD_TOKENS : 0;
+  
+  const fitRecent = (limit: number) => {
+    const kept: ChatMessage[] = [];
+    let used = summaryTokens();
+    for (let i = history.length - 1; i >= summarizedCount; i--) {
+      const cost = estimateMessageTokens(history[i]);
+      if (used + cost > limit && kept.length > 0) {
+        break;
+      }
+      kept.unshift(history[i]);
+      used += cost;
+    }
+    return kept;
+  };
+  
+  let recent = fitRecent(budget);
+  const overflow = history.length - summarizedCount - recent.length;
+  
+  if (overflow > 0) {
+    // Summarize down to ~60% of the budget so the next few turns don't
+    // trigger another summarization round
+    const target = fitRecent(Math.floor(budget * 0.6));
+    const dropped = history.slice(summarizedCount, history.length - target.length);
+    
+    try {
+      summary = await summarizeTurns(env, summary, dropped);
+      summarizedCount += dropped.length;
+      await env.AI_CHAT_DB.prepare(
+        'UPDATE chat_sessions SET summary = ?, summary_message_count = ? WHERE id = ?'
+      ).bind(summary, summarizedCount, sessionId).run();
+      recent = fitRecent(budget);
+    } catch (error) {
+      // Fall back to a plain sliding window if summarization fails
+      console.error('Summarization error:', error);
+    }
+  }
+  
+  const messages: ChatMessage[] = [{ role: 'system', content: systemPrompt }];
+  if (summary) {
+    messages.push({ role: 'system', content: `Summary of the earlier conversation:\n${summary}` });
+  }
+  
+  // A single oversized turn (e.g. a huge paste) still has to fit
+  const available = budget - summaryTokens();
+  for (const message of recent) {
+    const content = renderMessageContent(message);
+    messages.push({
+      role: message.role,
+      content: recent.length === 1 ? truncateToTokens(content, available - MESSAGE_OVERHEAD_TOKENS) : content
+    });
+  }
+  
+  return messages;
+}
+
+// ==================== ATTACHMENTS ====================
+// Files linked in a user message (/api/files/<key>) are read and stored on
+// that history entry, so later turns keep seeing them within the budget.
+const VISION_MODEL = '@cf/meta/llama-3.2-11b-vision-instruct';
+const MAX_ATTACHMENTS = 5;
+// Share of the model's context that a message's attachments may use together
+const ATTACHMENT_CONTEXT_SHARE = 0.5;
+
+type Attachment = {
+  key: string;
+  name: string;
+  contentType: string;
+  content: string;
+  tokens: number;
+  truncated: boolean;
+  error?: string;
+};
+
+function findFileReferences(text: string, userId: string): string[] {
+  const keys = new Set<string>();
+  for (const match of text.matchAll(/\/api\/files\/([^\s)?#"'<>]+)/g)) {
+    try {
+      const key = match[1].split('/').map(decodeURIComponent).join('/');
+      if (getFileOwner(key) === userId) {
+        keys.add(key);
+      }
+    } catch {
+      // Malformed escape sequence; not one of our links
+    }
+  }
+  return [...keys].slice(0, MAX_ATTACHMENTS);
+}
+
+// Meta's license for the vision model has to be accepted once per account,
+// which is done by sending the prompt "agree"; Workers AI reports error 5016 until then
+async function runVisionModel(env: Env, inputs: AiModels[typeof VISION_MODEL]['inputs']): Promise<unknown> {
+  try {
+    return await env.AI.run(VISION_MODEL, inputs);
+  } catch (error: any) {
+    if (!String(error.message).includes('5016')) {
+      throw error;
+    }
+    await env.AI.run(VISION_MODEL, { prompt: 'agree' });
+    return env.AI.run(VISION_MODEL, inputs);
+  }
+}
+
+async function describeImage(env: Env, data: Uint8Array): Promise<string> {
+  const result = await runVisionModel(env, {
+    messages: [
+      {
+        role: 'user',
+        content: 'Describe this image in detail. Transcribe any text, code, or data it contains verbatim.'
+      }
+    ],
+    image: [...data],
+    max_tokens: 512
+  }) as { response?: string };
+  
+  return result.response?.trim() || '';
+}
+
+async function extractFileText(env: Env, name: string, object: R2ObjectBody): Promise<string> {
+  const contentType = object.httpMetadata?.contentType || 'application/octet-stream';
+  
+  if (contentType.startsWith('image/')) {
+    return `Image description: ${await describeImage(env, new Uint8Array(await object.arrayBuffer()))}`;
+  }
+  
+  if (contentType === 'application/pdf') {
+    const converted = await env.AI.toMarkdown({
+      name,
+      blob: new Blob([await object.arrayBuffer()], { type: contentType })
+    });
+    if (converted.format === 'error') {
+      throw new Error(converted.error);
+    }
+    return converted.data;
+  }
+  
+  if (contentType === 'application/json') {
+    const text = await object.text();
+    try {
+      return JSON.stringify(JSON.parse(text), null, 2);
+    } catch {
+      return text;
+    }
+  }
+  
+  if (contentType.startsWith('text/')) {
+    return object.text();
+  }
+  
+  throw new Error(`Cannot read ${contentType} files`);
+}
+
+async function loadAttachments(env: Env, userId: string, message: string, model: string): Promise<Attachment[]> {
+  const keys = findFileReferences(message, userId);
+  if (keys.length === 0) {
+    return [];
+  }
+  
+  const perFile = Math.floor((getContextTokens(model) - RESPONSE_TOKEN_RESERVE) * ATTACHMENT_CONTEXT_SHARE / keys.length);
+  
+  return Promise.all(keys.map(async (key): Promise<Attachment> => {
+    const name = key.split('/').slice(2).join('/');
+    
+    try {
+      const object = await env.FILE_STORAGE.get(key);
+      if (!object) {
+        throw new Error('File not found');
+      }
+      
+      const text = await extractFileText(env, name, object);
+      const fullTokens = estimateTokens(text);
+      const content = truncateToTokens(text, perFile);
+      
+      return {
+        key,
+        name,
+        contentType: object.httpMetadata?.contentType || 'application/octet-stream',
+        content,
+        tokens: estimateTokens(content),
+        truncated: fullTokens > perFile
+      };
+    } catch (error: any) {
+      return { key, name, contentType: '', content: '', tokens: 0, truncated: false, error: error.message };
+    }
+  }));
+}
+
+// What the client is told about attachments; the extracted text stays server-side
+function summarizeAttachments(attachments: Attachment[]) {
+  return attachments.map(({ key, name, tokens, truncated, error }) => ({ key, name, tokens, truncated, error }));
+}
+
+// The message as the model sees it, with attachment text appended. Images sent
+// with earlier turns are only named; the model saw their pixels on that turn.
+function renderMessageContent(message: ChatMessage): string {
+  const readable = message.attachments?.filter(attachment => !attachment.error) || [];
+  const images = message.images || [];
+  if (readable.length === 0 && images.length === 0) {
+    return message.content || '';
+  }
+  
+  return [
+    message.content,
+    ...images.map(image => `[Image: ${image.name}]`),
+    ...readable.map(attachment =>
+      `<attachment name="${attachment.name}" type="${attachment.contentType}"${attachment.truncated ? ' truncated="true"' : ''}>\n${attachment.content}\n</attachment>`
+    )
+  ].join('\n\n');
+}
+
+// ==================== IMAGE INPUT ====================
+// Images attached to a chat message are uploaded first (/api/files/upload) and
+// sent as their keys. The vision model takes a single image per request, so the
+// first one goes in as pixels and any others are described as attachments.
+const MAX_IMAGE_INPUTS = 4;
+// Models that accept an `image` input next to `messages`
+const VISION_MODELS = new Set([VISION_MODEL]);
+
+type ImageInput = {
+  key: string;
+  name: string;
+  contentType: string;
+};
+
+async function loadImageInputs(env: Env, userId: string, keys: unknown) {
+  if (keys === undefined || keys === null) {
+    return { images: [] as ImageInput[], data: [] as Uint8Array[] };
+  }
+  if (!Array.isArray(keys) || !keys.every(key => typeof key === 'string')) {
+    throw new UploadError('accept', 'images must be an array of file keys');
+  }
+  if (keys.length > MAX_IMAGE_INPUTS) {
+    throw new UploadError('max_files', `At most ${MAX_IMAGE_INPUTS} images can be sent with a message`);
+  }
+  
+  const images: ImageInput[] = [];
+  const data: Uint8Array[] = [];
+  for (const key of new Set(keys as string[])) {
+    const object = getFileOwner(key) === userId ? await env.FILE_STORAGE.get(key) : null;
+    const contentType = object?.httpMetadata?.contentType || '';
+    if (!object || !contentType.startsWith('image/')) {
+      throw new UploadError('accept', `${key.split('/').pop()} is not one of your images`);
+    }
+    
+    images.push({ key, name: key.split('/').slice(2).join('/'), contentType });
+    data.push(new Uint8Array(await object.arrayBuffer()));
+  }
+  
+  return { images, data };
+}
+
+// Picks the model for a message: anything with images goes to a vision model,
+// replacing the selected one when it can't see them
+function resolveChatModel(requestedModel: string, hasImages: boolean): string {
+  return hasImages && !VISION_MODELS.has(requestedModel) ? VISION_MODEL : requestedModel;
+}
+
+// Images after the first, as text the vision model can read alongside it
+async function describeExtraImages(env: Env, images: ImageInput[], data: Uint8Array[]): Promise<Attachment[]> {
+  return Promise.all(images.slice(1).map(async (image, i): Promise<Attachment> => {
+    try {
+      const content = `Image description: ${await describeImage(env, data[i + 1])}`;
+      return { ...image, content, tokens: estimateTokens(content), truncated: false };
+    } catch (error: any) {
+      return { ...image, content: '', tokens: 0, truncated: false, error: error.message };
+    }
+  }));
+}
+
+async function summarizeImages(env: Env, images: ImageInput[]) {
+  return Promise.all(images.map(async ({ key, name, contentType }) => ({
+    key,
+    name,
+    contentType,
+    url: await signFileUrl(env, key)
+  })));
+}
+
+// ==================== CHAT ROUTES ====================
+app.post('/api/chat', requireAuth, enforceQuota, async (c) => {
+  try {
+    const { message, sessionId, model: requestedModel = '@cf/meta/llama-3.1-8b-instruct', useTools = true, images: imageKeys } = await c.req.json();
+    const userId = c.var.user.id;
+    
+    if (!sessionId) {
+      return c.json({ error: 'sessionId is required' }, 400);
+    }
+    
+    if (!(await claimSession(c.env, sessionId, userId, requestedModel))) {
+      return forbidden(c, 'Session belongs to another user');
+    }
+    
+    const { images, data: imageData } = await loadImageInputs(c.env, userId, imageKeys);
+    const model = resolveChatModel(requestedModel, images.length > 0);
+    
+    // Track analytics
+    c.env.ANALYTICS.writeDataPoint({
+      blobs: [userId, sessionId, 'chat_request'],
+      doubles: [1],
+      indexes: [model]
+    });
+    
+    // Get chat history from KV
+    const historyKey = `chat:${sessionId}`;
+    const history = await c.env.CHAT_SESSIONS.get(historyKey, 'json') as StoredMessage[] | null || [];
+    
+    // Add user message, with the text of any files it links to
+    const attachments = [
+      ...await loadAttachments(c.env, userId, message, model),
+      ...await describeExtraImages(c.env, images, imageData)
+    ];
+    history.push({
+      role: 'user',
+      content: message,
+      timestamp: Date.now(),
+      ...(attachments.length > 0 && { attachments }),
+      ...(images.length > 0 && { images })
+    });
+    
+    // Prepare messages with system prompt, fitted to the model's context window
+    const messages = await buildContextMessages(c.env, sessionId, history, model);
+    
+    let response;
+    
+    if (VISION_MODELS.has(model)) {
+      // The vision model has no tool calling
+      response = await runVisionModel(c.env, {
+        messages,
+        ...(imageData.length > 0 && { image: [...imageData[0]] })
+      }) as AiTextGenerationOutput;
+    } else if (useTools) {
+      // Use AI with tools
+      const tools = createTools(c.env, userId);
+      response = await runWithTools(c.env.AI, model, {
+        messages,
+        tools
+      }, {
+        maxRecursiveToolRuns: 3,
+        streamFinalResponse: false
+      });
+    } else {
+      // Regular AI call
+      response = await c.env.AI.run(model, {
+        messages
+      });
+    }
+    
+    const assistantMessage = typeof response === 'string' ? response : (response as AiTextGenerationOutput).response || '';
+    const usage = resolveTokenUsage(typeof response === 'string' ? undefined : (response as { usage?: AiUsage }).usage, messages, assistantMessage);
+    const costUSD = estimateCost(model, usage);
+    const context: ContextWindow = { usedTokens: usage.totalTokens, maxTokens: getContextTokens(model) };
+    history.push({
+      role: 'assistant',
+      content: assistantMessage,
+      timestamp: Date.now(),
+      model,
+      usage,
+      costUSD,
+      contextTokens: context.usedTokens
+    });
+    
+    // Store in KV (7 days TTL)
+    await c.env.CHAT_SESSIONS.put(historyKey, JSON.stringify(history), {
+      expirationTtl: 7 * 24 * 60 * 60
+    });
+    
+    await recordSessionActivity(c.env, sessionId, userId, requestedModel, history.length);
+    await recordUsage(c.env, {
+      userId,
+      action: 'chat',
+      resource: model,
+      tokensUsed: usage.totalTokens,
+      cost: costUSD,
+      metadata: { sessionId, inputTokens: usage.inputTokens, outputTokens: usage.outputTokens }
+    });
+    if (history.length === 2) {
+      c.executionCtx.waitUntil(generateSessionTitle(c.env, sessionId, message, assistantMessage));
+    }
+    
+    return c.json({
+      response: assistantMessage,
+      model,
+      ...(model !== requestedModel && { requestedModel }),
+      sessionId,
+      usage,
+      costUSD,
+      context,
+      attachments: summarizeAttachments(attachments),
+      images: await summarizeImages(c.env, images)
+    });
+  } catch (error: any) {
+    if (error instanceof UploadError) {
+      return c.json({ error: error.message, code: error.code }, error.status);
+    }
+    console.error('Chat error:', error);
+    return c.json({ error: error.message }, 500);
+  }
+});
+
+// ==================== STREAMING CHAT ====================
+// Events written to /api/chat/stream. Each SSE frame carries the event type in
+// both the `event:` field and the JSON payload.
+type ChatStreamEvent =
+  | { type: 'attachments'; attachments: ReturnType<typeof summarizeAttachments> }
+  | { type: 'model-fallback'; model: string; requestedModel: string }
+  | { type: 'text-delta'; delta: string }
+  | { type: 'tool-call-start'; toolCallId: string; toolName: string; input: unknown }
+  | { type: 'tool-result'; toolCallId: string; toolName: string; output: unknown }
+  | { type: 'tool-error'; toolCallId: string; toolName: string; errorText: string }
+  | { type: 'finish'; usage: TokenUsage; costUSD: number; context: ContextWindow }
+  | { type: 'error'; errorText: string };
+
+type AgentTool = ReturnType<typeof createTools>[number];
+
+type ToolInvocation = {
+  id: string;
+  name: string;
+  state: 'output-available' | 'output-error';
+  input: unknown;
+  output?: unknown;
+  errorText?: string;
+};
+
+const MAX_TOOL_ROUNDS = 3;
+
+async function invokeTool(tools: AgentTool[], name: string, args: unknown): Promise<{ output?: unknown; errorText?: string }> {
+  const selected = tools.find(t => t.name === name);
+  if (!selected?.function) {
+    return { errorText: `Unknown tool: ${name}` };
+  }
+  
+  try {
+    // Arguments come from the model; each tool validates its own
+    const output: unknown = await selected.function(args as never);
+    // Our tools report failures as { error } rather than throwing
+    if (output && typeof output === 'object' && 'error' in output) {
+      return { output, errorText: String((output as { error: unknown }).error) };
+    }
+    return { output };
+  } catch (error: any) {
+    return { errorText: error.message };
+  }
+}
+
+// Workers AI streams server-sent events: `data: {"response": "..."}` frames
+// terminated by `data: [DONE]`. The last frame may carry token usage.
+async function* readAiStream(stream: ReadableStream<Uint8Array>, signal?: AbortSignal): AsyncGenerator<{ response?: string; usage?: AiUsage }> {
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  
+  try {
+    while (!signal?.aborted) {
+      const { value, done } = await reader.read();
+      if (done) {
+        break;
+      }
+      
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      
+      for (const line of lines) {
+        if (!line.startsWith('data:')) {
+          continue;
+        }
+        const data = line.slice(5).trim();
+        if (!data || data === '[DONE]') {
+          continue;
+        }
+        try {
+          yield JSON.parse(data);
+        } catch {
+          // Ignore keep-alives and partial frames
+        }
+      }
+    }
+  } finally {
+    if (signal?.aborted) {
+      // Cancelling the body tells Workers AI to stop generating
+      await reader.cancel().catch(() => {});
+    }
+    reader.releaseLock();
+  }
+}
+
+// Runs the model with tools, reporting every step through `emit`. Tool
+// selection rounds are non-streaming (Workers AI only returns tool_calls on
+// complete responses). A round that calls no tool already holds the answer,
+// which is sent as is; otherwise (no tools, or the rounds ran out) the answer
+// is streamed from a final call without tools. When
+// `signal` aborts, generation stops and the partial result is returned with
+// `truncated: true`. An `image` goes to the final call, for vision models.
+async function runAgentStream(
+  env: Env,
+  model: string,
+  messages: ChatMessage[],
+  tools: AgentTool[],
+  emit: (event: ChatStreamEvent) => Promise<void>,
+  signal?: AbortSignal,
+  image?: Uint8Array
+) {
+  const conversation: ChatMessage[] = [...messages];
+  const invocations: ToolInvocation[] = [];
+  // Summed per model call, each estimated only if Workers AI didn't report it
+  const usage = { input: 0, output: 0 };
+  const addCallUsage = (reported: AiUsage | undefined, prompt: ChatMessage[], completion: string) => {
+    const call = resolveTokenUsage(reported, prompt, completion);
+    usage.input += call.inputTokens;
+    usage.output += call.outputTokens;
+    return call;
+  };
+  const toolSchemas = tools.map(({ name, description, parameters }) => ({ name, description, parameters }));
+  let text = '';
+  let answered = false;
+  let lastCall: TokenUsage | undefined;
+  
+  for (let round = 0; tools.length > 0 && round < MAX_TOOL_ROUNDS && !signal?.aborted; round++) {
+    const response = await env.AI.run(model, {
+      messages: conversation,
+      tools: toolSchemas
+    }) as { response?: string; tool_calls?: { name: string; arguments: unknown }[]; usage?: AiUsage };
+    
+    const toolCalls = response.tool_calls?.filter(Boolean) || [];
+    lastCall = addCallUsage(response.usage, conversation, response.response || JSON.stringify(toolCalls));
+    if (toolCalls.length === 0) {
+      // The model answered instead of calling a tool, so that answer is final
+      text = response.response || '';
+      answered = true;
+      break;
+    }
+    
+    for (const toolCall of toolCalls) {
+      if (signal?.aborted) {
+        break;
+      }
+      
+      const toolCallId = crypto.randomUUID();
+      conversation.push({ role: 'assistant', content: JSON.stringify(toolCall) });
+      await emit({ type: 'tool-call-start', toolCallId, toolName: toolCall.name, input: toolCall.arguments });
+      
+      const { output, errorText } = await invokeTool(tools, toolCall.name, toolCall.arguments);
+      
+      if (errorText) {
+        await emit({ type: 'tool-error', toolCallId, toolName: toolCall.name, errorText });
+        conversation.push({ role: 'tool', name: toolCall.name, content: `Error executing tool ${toolCall.name}: ${errorText}` });
+        invocations.push({ id: toolCallId, name: toolCall.name, state: 'output-error', input: toolCall.arguments, errorText });
+      } else {
+        await emit({ type: 'tool-result', toolCallId, toolName: toolCall.name, output });
+        conversation.push({ role: 'tool', name: toolCall.name, content: JSON.stringify(output) });
+        invocations.push({ id: toolCallId, name: toolCall.name, state: 'output-available', input: toolCall.arguments, output });
+      }
+    }
+  }
+  
+  if (answered) {
+    if (text && !signal?.aborted) {
+      await emit({ type: 'text-delta', delta: text });
+    }
+  } else if (!signal?.aborted) {
+    // No tools, or the tool rounds ran out: stream the answer to the tool results
+    let finalCall: AiUsage | undefined;
+    const eventStream = await (VISION_MODELS.has(model)
+      ? runVisionModel(env, { messages: conversation, stream: true, ...(image && { image: [...image] }) })
+      : env.AI.run(model, { messages: conversation, stream: true })) as ReadableStream<Uint8Array>;
+    
+    for await (const chunk of readAiStream(eventStream, signal)) {
+      if (chunk.response) {
+        text += chunk.response;
+        await emit({ type: 'text-delta', delta: chunk.response });
+      }
+      if (chunk.usage) {
+        finalCall = chunk.usage;
+      }
+    }
+    lastCall = addCallUsage(finalCall, conversation, text);
+  }
+  
+  // The last call saw the whole conversation, so its prompt is what fills the window
+  const { totalTokens: usedTokens } = lastCall || resolveTokenUsage(undefined, conversation, text);
+  const context: ContextWindow = { usedTokens, maxTokens: getContextTokens(model) };
+  const tokenUsage: TokenUsage = {
+    inputTokens: usage.input,
+    outputTokens: usage.output,
+    totalTokens: usage.input + usage.output
+  };
+  const costUSD = estimateCost(model, tokenUsage);
+  const truncated = Boolean(signal?.aborted);
+  if (!truncated) {
+    await emit({ type: 'finish', usage: tokenUsage, costUSD, context });
+  }
+  
+  return { text, invocations, usage: tokenUsage, costUSD, context, truncated };
+}
+
+app.post('/api/chat/stream', requireAuth, enforceQuota, async (c) => {
+  const { message, sessionId, model: requestedModel = '@cf/meta/llama-3.1-8b-instruct', useTools = true, images: imageKeys } = await c.req.json();
+  const userId = c.var.user.id;
+  
+  if (!sessionId) {
+    return c.json({ error: 'sessionId is required' }, 400);
+  }
+  
+  if (!(await claimSession(c.env, sessionId, userId, requestedModel))) {
+    return forbidden(c, 'Session belongs to another user');
+  }
+  
+  let imageInputs: Awaited<ReturnType<typeof loadImageInputs>>;
+  try {
+    imageInputs = await loadImageInputs(c.env, userId, imageKeys);
+  } catch (error: any) {
+    if (error instanceof UploadError) {
+      return c.json({ error: error.message, code: error.code }, error.status);
+    }
+    return c.json({ error: error.message }, 500);
+  }
+  const { images, data: imageData } = imageInputs;
+  const model = resolveChatModel(requestedModel, images.length > 0);
+  
+  c.env.ANALYTICS.writeDataPoint({
+    blobs: [userId, sessionId, 'chat_stream_request'],
+    doubles: [1],
+    indexes: [model]
+  });
+  
+  return streamSSE(c, async (stream) => {
+    // Fires when the client disconnects or presses Stop
+    const disconnect = new AbortController();
+    stream.onAbort(() => disconnect.abort());
+    
+    const emit = async (event: ChatStreamEvent) => {
+      if (!stream.aborted) {
+        await stream.writeSSE({
+          event: event.type,
+          data: JSON.stringify(event)
+        });
+      }
+    };
+    
+    try {
+      const historyKey = `chat:${sessionId}`;
+      const history = await c.env.CHAT_SESSIONS.get(historyKey, 'json') as StoredMessage[] | null || [];
+      if (model !== requestedModel) {
+        await emit({ type: 'model-fallback', model, requestedModel });
+      }
+      const attachments = [
+        ...await loadAttachments(c.env, userId, message, model),
+        ...await describeExtraImages(c.env, images, imageData)
+      ];
+      if (attachments.length > 0) {
+        await emit({ type: 'attachments', attachments: summarizeAttachments(attachments) });
+      }
+      history.push({
+        role: 'user',
+        content: message,
+        timestamp: Date.now(),
+        ...(attachments.length > 0 && { attachments }),
+        ...(images.length > 0 && { images })
+      });
+      
+      const messages = await buildContextMessages(c.env, sessionId, history, model);
+      // The vision model has no tool calling
+      const tools = useTools && !VISION_MODELS.has(model) ? createTools(c.env, userId) : [];
+      const result = await runAgentStream(c.env, model, messages, tools, emit, disconnect.signal, imageData[0]);
+      
+      history.push({
+        role: 'assistant',
+        content: result.text,
+        timestamp: Date.now(),
+        model,
+        usage: result.usage,
+        costUSD: result.costUSD,
+        contextTokens: result.context.usedTokens,
+        ...(result.invocations.length > 0 && { tools: result.invocations }),
+        ...(result.truncated && { truncated: true })
+      });
+      
+      const persist = async () => {
+        await c.env.CHAT_SESSIONS.put(historyKey, JSON.stringify(history), {
+          expirationTtl: 7 * 24 * 60 * 60
+        });
+        await recordSessionActivity(c.env, sessionId, userId, requestedModel, history.length);
+        await recordUsage(c.env, {
+          userId,
+          action: 'chat',
+          resource: model,
+          tokensUsed: result.usage.totalTokens,
+          cost: result.costUSD,
+          metadata: {
+            sessionId,
+            inputTokens: result.usage.inputTokens,
+            outputTokens: result.usage.outputTokens,
+            streamed: true,
+            ...(result.truncated && { truncated: true })
+          }
+        });
+        if (history.length === 2) {
+          c.executionCtx.waitUntil(generateSessionTitle(c.env, sessionId, message, result.text));
+        }
+      };
+      
+      if (result.truncated) {
+        // Nobody is listening anymore; keep the worker alive until the partial answer is saved
+        c.executionCtx.waitUntil(persist());
+      } else {
+        await persist();
+      }
+    } catch (error: any) {
+      console.error('Stream error:', error);
+      await emit({ type: 'error', errorText: error.message });
+    }
+  });
+});
+
+// ==================== VOICE AGENT ====================
+// Browsers can't set headers on a WebSocket, so the client first trades its
+// bearer token for a one-time ticket and presents that when connecting, either
+// as `?ticket=` or as the subprotocol list `[VOICE_PROTOCOL, ticket]`.
+const VOICE_PROTOCOL = 'voice-agent';
+const VOICE_TICKET_TTL_SECONDS = 60;
+const DEEPGRAM_AGENT_URL = 'wss://agent.deepgram.com/v1/agent/converse';
+// Recorded as the session model for voice turns
+const VOICE_AGENT_MODEL = 'deepgram/voice-agent';
+// Client frames held while the upstream connection opens (~16s of 16 kHz linear16)
+const VOICE_BUFFER_MAX_BYTES = 512 * 1024;
+// Twice the 32 KB/s of 16 kHz linear16, so normal jitter is never throttled
+const VOICE_RELAY_BYTES_PER_SECOND = 64 * 1024;
+
+// `deepgram` is the streaming agent below; `workers-ai` is push-to-talk over
+// whisper, the normal chat routes and melotts, and needs no third-party key
+type VoiceProvider = 'deepgram' | 'workers-ai';
+const VOICE_PROVIDERS: VoiceProvider[] = ['deepgram', 'workers-ai'];
+
+function getVoiceProviders(env: Env): VoiceProvider[] {
+  return env.DEEPGRAM_API_KEY || env.DEEPGRAM_AGENT_URL ? VOICE_PROVIDERS : ['workers-ai'];
+}
+
+// The user's choice when it's available here, otherwise the first available one
+function getVoiceProvider(env: Env, settings: AuthUser['settings']): VoiceProvider {
+  const available = getVoiceProviders(env);
+  const chosen = settings.voiceProvider as VoiceProvider;
+  return available.includes(chosen) ? chosen : available[0];
+}
+
+type VoiceTicketClaims = Omit<TokenClaims, 'iat'> & {
+  // Chat session that receives the transcript
+  sid?: string;
+};
+
+async function issueVoiceTicket(env: Env, userId: string, sessionId?: string): Promise<string> {
+  const claims: VoiceTicketClaims = {
+    sub: userId,
+    exp: Math.floor(Date.now() / 1000) + VOICE_TICKET_TTL_SECONDS,
+    jti: crypto.randomUUID(),
+    ...(sessionId && { sid: sessionId })
+  };
+  const payload = base64UrlEncode(JSON.stringify(claims));
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    await getSigningKey(env),
+    new TextEncoder().encode(`voice:${payload}`)
+  );
+  return `${payload}.${base64UrlEncode(signature)}`;
+}
+
+// Returns the ticket's claims, consuming the ticket
+async function redeemVoiceTicket(env: Env, ticket: string): Promise<VoiceTicketClaims | null> {
+  try {
+    const [payload, signature] = ticket.split('.');
+    if (!payload || !signature) {
+      return null;
+    }
+    
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await getSigningKey(env),
+      base64UrlDecode(signature),
+      new TextEncoder().encode(`voice:${payload}`)
+    );
+    if (!valid) {
+      return null;
+    }
+    
+    const claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(payload))) as VoiceTicketClaims;
+    if (!claims.sub || !claims.jti || claims.exp <= Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+    
+    // KV is eventually consistent, so a replay within the same second elsewhere
+    // could slip through; the short TTL bounds that window
+    const usedKey = `voice-ticket:${claims.jti}`;
+    if (await env.CHAT_SESSIONS.get(usedKey)) {
+      return null;
+    }
+    await env.CHAT_SESSIONS.put(usedKey, claims.sub, { expirationTtl: 60 });
+    
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+function getVoiceTicket(c: Context<AppEnv>): { ticket: string | null; protocol: boolean } {
+  const protocols = (c.req.header('Sec-WebSocket-Protocol') || '')
+    .split(',')
+    .map(protocol => protocol.trim())
+    .filter(Boolean);
+  
+  if (protocols.includes(VOICE_PROTOCOL)) {
+    return { ticket: protocols.find(protocol => protocol !== VOICE_PROTOCOL) || null, protocol: true };
+  }
+  return { ticket: c.req.query('ticket') || null, protocol: false };
+}
+
+// A function call from the agent. Ours are all client_side: the agent waits
+// for the proxy to run them and reply with a FunctionCallResponse.
+type VoiceFunctionCall = {
+  id: string;
+  name: string;
+  arguments: string;
+  client_side?: boolean;
+};
+
+function voiceAgentSettings(tools: AgentTool[]) {
+  return {
+    type: 'Settings',
+    audio: {
+      input: { encoding: 'linear16', sample_rate: 16000 },
+      output: { encoding: 'linear16', sample_rate: 24000 }
+    },
+    agent: {
+      listen: { provider: { model: 'nova-3' } },
+      think: {
+        provider: { model: 'gpt-4o-mini' },
+        prompt: SYSTEM_PROMPT,
+        functions: tools.map(({ name, description, parameters }) => ({
+          name,
+          description,
+          parameters: parameters || { type: 'object', properties: {} }
+        }))
+      },
+      speak: { provider: { model: 'aura-2-andromeda-en' } }
+    }
+  };
+}
+
+// Workers opens outbound WebSockets with a fetch upgrade, which is the only
+// way to send the Authorization header. Overridable so tests can point it at
+// a local fake agent server.
+async function connectVoiceAgent(env: Env): Promise<WebSocket> {
+  const url = (env.DEEPGRAM_AGENT_URL || DEEPGRAM_AGENT_URL).replace(/^ws/, 'http');
+  const response = await fetch(url, {
+    headers: {
+      'Upgrade': 'websocket',
+      ...(env.DEEPGRAM_API_KEY && { 'Authorization': `Token ${env.DEEPGRAM_API_KEY}` })
+    }
+  });
+  
+  if (!response.webSocket) {
+    throw new Error(`Voice agent refused the connection (${response.status})`);
+  }
+  response.webSocket.accept();
+  return response.webSocket;
+}
+
+// Both sides of the conversation arrive from the agent as ConversationText
+// events; they are added to the chat history like typed turns
+async function appendVoiceTranscript(
+  env: Env,
+  ctx: Pick<ExecutionContext, 'waitUntil'>,
+  userId: string,
+  sessionId: string,
+  role: string,
+  content: string,
+  tools: ToolInvocation[] = []
+) {
+  const historyKey = `chat:${sessionId}`;
+  const history = await env.CHAT_SESSIONS.get(historyKey, 'json') as StoredMessage[] | null || [];
+  history.push({
+    role,
+    content,
+    timestamp: Date.now(),
+    ...(tools.length > 0 && { tools })
+  });
+  
+  await env.CHAT_SESSIONS.put(historyKey, JSON.stringify(history), {
+    expirationTtl: 7 * 24 * 60 * 60
+  });
+  await recordSessionActivity(env, sessionId, userId, VOICE_AGENT_MODEL, history.length);
+  
+  if (history.length === 2 && history[0].role === 'user') {
+    ctx.waitUntil(generateSessionTitle(env, sessionId, history[0].content, content));
+  }
+}
+
+// Also used to answer the peer's close frame, which Workers doesn't do for us.
+// 1005, 1006 and 1015 only ever describe a closure; they can't be sent.
+function closeSocket(socket: WebSocket, code: number, reason = '') {
+  if (socket.readyState === WebSocket.CLOSED) {
+    return;
+  }
+  const sendable = code === 1000 || (code >= 1001 && code <= 1014 && ![1004, 1005, 1006].includes(code)) || (code >= 3000 && code <= 4999);
+  try {
+    // Close reasons are limited to 123 bytes
+    socket.close(sendable ? code : 1000, reason.slice(0, 120));
+  } catch {
+    // Already closed by the other side
+  }
+}
+
+function frameSize(data: string | ArrayBuffer): number {
+  return typeof data === 'string' ? data.length : data.byteLength;
+}
+
+// Runs the agent's function calls with the user's tools and answers each one.
+// The browser gets the same tool events as /api/chat/stream so it can show
+// them in the transcript.
+async function runVoiceFunctionCalls(
+  agent: WebSocket,
+  client: WebSocket,
+  tools: AgentTool[],
+  calls: VoiceFunctionCall[]
+): Promise<ToolInvocation[]> {
+  const invocations: ToolInvocation[] = [];
+  const notify = (event: ChatStreamEvent) => {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(JSON.stringify(event));
+    }
+  };
+  
+  for (const call of calls.filter(call => call.client_side !== false)) {
+    let input: unknown;
+    try {
+      input = JSON.parse(call.arguments || '{}');
+    } catch {
+      input = {};
+    }
+    
+    notify({ type: 'tool-call-start', toolCallId: call.id, toolName: call.name, input });
+    const { output, errorText } = await invokeTool(tools, call.name, input);
+    
+    if (agent.readyState === WebSocket.OPEN) {
+      agent.send(JSON.stringify({
+        type: 'FunctionCallResponse',
+        id: call.id,
+        name: call.name,
+        content: errorText ? `Error executing tool ${call.name}: ${errorText}` : JSON.stringify(output)
+      }));
+    }
+    
+    if (errorText) {
+      notify({ type: 'tool-error', toolCallId: call.id, toolName: call.name, errorText });
+      invocations.push({ id: call.id, name: call.name, state: 'output-error', input, errorText });
+    } else {
+      notify({ type: 'tool-result', toolCallId: call.id, toolName: call.name, output });
+      invocations.push({ id: call.id, name: call.name, state: 'output-available', input, output });
+    }
+  }
+  
+  return invocations;
+}
+
+// Pipes frames both ways between the browser and the agent. Frames from the
+// browser are buffered until the agent connection is up, behind the Settings
+// message. Workers sockets don't expose bufferedAmount, so once the agent is
+// up the proxy meters what it forwards instead: frames beyond
+// VOICE_RELAY_BYTES_PER_SECOND (after a VOICE_BUFFER_MAX_BYTES burst) are
+// dropped, and a client that has had VOICE_BUFFER_MAX_BYTES dropped is
+// disconnected. Either side closing or failing closes the other. Function calls are intercepted and run
+// here. Resolves once the call has ended and its transcript is saved.
+async function proxyVoiceAgent(env: Env, ctx: Pick<ExecutionContext, 'waitUntil'>, client: WebSocket, userId: string, sessionId?: string) {
+  const pending: (string | ArrayBuffer)[] = [];
+  let pendingBytes = 0;
+  let upstream: WebSocket | null = null;
+  // Byte allowance for forwarding, refilled at VOICE_RELAY_BYTES_PER_SECOND
+  let relayCredit = VOICE_BUFFER_MAX_BYTES;
+  let relayCreditAt = Date.now();
+  let droppedBytes = 0;
+  const tools = createTools(env, userId);
+  // Tool runs are kept for the next assistant turn in the transcript
+  const invocations: ToolInvocation[] = [];
+  // Transcript writes are chained so turns land in order
+  let transcript = Promise.resolve();
+  const record = (role: string, content: string, tools: ToolInvocation[] = []) => {
+    if (sessionId) {
+      transcript = transcript
+        .then(() => appendVoiceTranscript(env, ctx, userId, sessionId, role, content, tools))
+        .catch(error => console.error('Voice transcript error:', error));
+    }
+  };
+  const clientClosed = new Promise<void>(resolve => client.addEventListener('close', () => resolve()));
+  
+  client.addEventListener('message', (event) => {
+    if (upstream) {
+      const now = Date.now();
+      relayCredit = Math.min(VOICE_BUFFER_MAX_BYTES, relayCredit + (now - relayCreditAt) * VOICE_RELAY_BYTES_PER_SECOND / 1000);
+      relayCreditAt = now;
+      
+      const size = frameSize(event.data);
+      if (size <= relayCredit) {
+        relayCredit -= size;
+        upstream.send(event.data);
+      } else if ((droppedBytes += size) > VOICE_BUFFER_MAX_BYTES) {
+        closeSocket(client, 1008, 'Audio is arriving faster than real time');
+        closeSocket(upstream, 1000, 'Client disconnected');
+      }
+      return;
+    }
+    
+    pendingBytes += frameSize(event.data);
+    if (pendingBytes > VOICE_BUFFER_MAX_BYTES) {
+      closeSocket(client, 1013, 'Voice agent is not ready');
+      return;
+    }
+    pending.push(event.data);
+  });
+  
+  client.addEventListener('close', (event) => {
+    closeSocket(client, event.code, event.reason);
+    if (upstream) {
+      closeSocket(upstream, event.code, event.reason);
+    }
+  });
+  
+  client.addEventListener('error', () => {
+    if (upstream) {
+      closeSocket(upstream, 1011, 'Client connection failed');
+    }
+  });
+  
+  let agent: WebSocket;
+  try {
+    agent = await connectVoiceAgent(env);
+  } catch (error: any) {
+    console.error('Voice agent connection error:', error);
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(JSON.stringify({ type: 'Error', description: error.message }));
+    }
+    closeSocket(client, 1011, 'Voice agent unavailable');
+    return;
+  }
+  
+  if (client.readyState !== WebSocket.OPEN) {
+    // The browser gave up while we were connecting
+    closeSocket(agent, 1000, 'Client disconnected');
+    return;
+  }
+  
+  agent.addEventListener('message', async (event) => {
+    let message: { type?: string; role?: string; content?: string; functions?: VoiceFunctionCall[] } = {};
+    if (typeof event.data === 'string') {
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        // Not JSON; pass it through as is
+      }
+    }
+    
+    if (message.type === 'FunctionCallRequest') {
+      invocations.push(...await runVoiceFunctionCalls(agent, client, tools, message.functions || []));
+      return;
+    }
+    
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(event.data);
+    }
+    
+    if (message.type === 'ConversationText' && message.content) {
+      if (message.role === 'user') {
+        record('user', message.content);
+      } else {
+        record('assistant', message.content, invocations.splice(0));
+      }
+    }
+  });
+  
+  const agentClosed = new Promise<void>(resolve => agent.addEventListener('close', () => resolve()));
+  agent.addEventListener('close', (event) => {
+    closeSocket(agent, event.code, event.reason);
+    closeSocket(client, event.code, event.reason);
+  });
+  
+  agent.addEventListener('error', () => {
+    closeSocket(client, 1011, 'Voice agent connection failed');
+  });
+  
+  agent.send(JSON.stringify(voiceAgentSettings(tools)));
+  for (const frame of pending.splice(0)) {
+    agent.send(frame);
+  }
+  pendingBytes = 0;
+  relayCreditAt = Date.now();
+  upstream = agent;
+  
+  await Promise.race([clientClosed, agentClosed]);
+  if (invocations.length > 0) {
+    // Tools ran but the agent never spoke again
+    record('assistant', '', invocations);
+  }
+  await transcript;
+}
+
+app.post('/api/voice/ticket', requireAuth, async (c) => {
+  try {
+    const { sessionId } = await c.req.json();
+    
+    if (sessionId && !(await claimSession(c.env, sessionId, c.var.user.id, VOICE_AGENT_MODEL))) {
+      return forbidden(c, 'Session belongs to another user');
+    }
+    
+    return c.json({
+      ticket: await issueVoiceTicket(c.env, c.var.user.id, sessionId),
+      protocol: VOICE_PROTOCOL,
+      expiresIn: VOICE_TICKET_TTL_SECONDS
+    });
+  } catch (error: any) {
+    return c.json({ error: error.message }, 500);
+  }
+});
+
+app.get('/api/voice/connect', async (c) => {
+  if (c.req.header('Upgrade') !== 'websocket') {
+    return c.json({ error: 'Expected WebSocket upgrade' }, 426);
+  }
+  
+  if (!getVoiceProviders(c.env).includes('deepgram')) {
+    return c.json({ error: 'Voice agent is not configured' }, 503);
+  }
+  
+  const { ticket, protocol } = getVoiceTicket(c);
+  const claims = ticket && await redeemVoiceTicket(c.env, ticket);
+  if (!claims || !(await loadAuthUser(c.env, claims.sub))) {
+    return unauthorized(c, ticket ? 'Invalid or expired voice ticket' : 'Voice ticket required');
+  }
+  
+  const [client, server] = Object.values(new WebSocketPair());
+  server.accept();
+  c.executionCtx.waitUntil(proxyVoiceAgent(c.env, c.executionCtx, server, claims.sub, claims.sid));
+  
+  return new Response(null, {
+    status: 101,
+    webSocket: client,
+    // Browsers drop the connection unless one of their offered protocols is echoed
+    ...(protocol && { headers: { 'Sec-WebSocket-Protocol': VOICE_PROTOCOL } })
+  });
+});
+
+// ==================== WORKERS AI VOICE ====================
+// The fallback voice pipeline. The browser records a push-to-talk clip, gets
+// it transcribed here, sends the text through /api/chat/stream like a typed
+// message, and has the answer read back by /api/voice/speak.
+const STT_MODEL = '@cf/openai/whisper';
+const TTS_MODEL = '@cf/myshell-ai/melotts';
+// Clips arrive as 16 kHz mono WAV (32 KB/s), so this is about 2.5 minutes
+const VOICE_CLIP_MAX_BYTES = 5 * 1024 * 1024;
+// melotts handles a few sentences per request; longer answers are spoken in pieces
+const TTS_CHUNK_CHARS = 500;
+const TTS_MAX_CHARS = 4000;
+
+// Markdown reads badly aloud: code is skipped and formatting characters dropped
+function speakableText(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, ' The code is in the chat. ')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*(#{1,6}|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*_~>|]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function splitForSpeech(text: string): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  for (const sentence of text.match(/[^.!?]+[.!?]*\s*/g) || []) {
+    if (current && current.length + sentence.length > TTS_CHUNK_CHARS) {
+      chunks.push(current.trim());
+      current = '';
+    }
+    // A single run-on sentence is cut at the chunk size
+    for (let i = 0; i < sentence.length; i += TTS_CHUNK_CHARS) {
+      current += sentence.slice(i, i + TTS_CHUNK_CHARS);
+      if (current.length >= TTS_CHUNK_CHARS) {
+        chunks.push(current.trim());
+        current = '';
+      }
+    }
+  }
+  if (current.trim()) {
+    chunks.push(current.trim());
+  }
+  return chunks;
+}
+
+app.post('/api/voice/transcribe', requireAuth, enforceQuota, async (c) => {
+  try {
+    const formData = await c.req.formData();
+    const audio = formData.get('audio') as unknown;
+    
+    if (!(audio instanceof File) || audio.size === 0) {
+      return c.json({ error: 'No audio provided' }, 400);
+    }
+    
+    if (audio.size > VOICE_CLIP_MAX_BYTES) {
+      throw new UploadError('max_file_size', `Recordings are limited to ${VOICE_CLIP_MAX_BYTES / 1024 / 1024} MB`);
+    }
+    
+    const result = await c.env.AI.run(STT_MODEL, {
+      audio: [...new Uint8Array(await audio.arrayBuffer())]
+    });
+    
+    c.env.ANALYTICS.writeDataPoint({
+      blobs: [c.var.user.id, 'voice_transcribe'],
+      doubles: [audio.size],
+      indexes: ['voice']
+    });
+    
+    return c.json({ text: result.text?.trim() || '' });
+  } catch (error: any) {
+    if (error instanceof UploadError) {
+      return c.json({ error: error.message, code: error.code }, error.status);
+    }
+    return c.json({ error: error.message }, 500);
+  }
+});
+
+// Returns MP3 audio; the chunks' MP3 frames simply play back to back
+app.post('/api/voice/speak', requireAuth, enforceQuota, async (c) => {
+  try {
+    const { text, lang = 'en' } = await c.req.json();
+    const speech = speakableText(String(text || '')).slice(0, TTS_MAX_CHARS);
+    
+    if (!speech) {
+      return c.json({ error: 'text is required' }, 400);
+    }
+    
+    const parts: Uint8Array[] = [];
+    for (const chunk of splitForSpeech(speech)) {
+      const result = await c.env.AI.run(TTS_MODEL, { prompt: chunk, lang });
+      parts.push(result instanceof Uint8Array ? result : Uint8Array.from(atob(result.audio), char => char.charCodeAt(0)));
+    }
+    
+    c.env.ANALYTICS.writeDataPoint({
+      blobs: [c.var.user.id, 'voice_speak'],
+      doubles: [speech.length],
+      indexes: ['voice']
+    });
+    
+    return new Response(new Blob(parts), {
+      headers: {
+        'Content-Type': 'audio/mpeg',
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error: any) {
+    return c.json({ error: error.message }, 500);
+  }
+});
+
+// ==================== FILE STORAGE ====================
+// Lists the caller's files, optionally limited to one folder
+app.get('/api/files', requireAuth, async (c) => {
+  try {
+    const userId = c.var.user.id;
+    const folder = c.req.query('folder');
+    
+    if (folder && !FILE_FOLDERS.includes(folder)) {
+      return c.json({ error: `Unknown folder. Use one of: ${FILE_FOLDERS.join(', ')}` }, 400);
+    }
+    
+    const listings = folder
+      ? [await listUserFiles(c.env, userId, folder, c.req.query('cursor'))]
+      : await Promise.all(FILE_FOLDERS.map(name => listUserFiles(c.env, userId, name)));
+    
+    return c.json({
+      files: listings.flatMap(listing => listing.files).sort((a, b) => b.createdAt - a.createdAt),
+      cursor: folder ? listings[0].cursor : null,
+      storage: {
+        used: await getStorageUsage(c.env, userId),
+        limit: getUserLimits(c.var.user.settings).storageBytes
+      }
+    });
+  } catch (error: any) {
+    return c.json({ error: error.message }, 500);
+  }
+});
+
+app.patch('/api/files/:key{.+}', requireAuth, async (c) => {
+  try {
+    const key = c.req.param('key');
+    const { name } = await c.req.json();
+    
+    if (getFileOwner(key) !== c.var.user.id) {
+      return forbidden(c, 'File belongs to another user');
+    }
+    
+    if (!String(name || '').trim()) {
+      return c.json({ error: 'Name is required' }, 400);
+    }
+    const newName = sanitizeFilename(String(name));
+    
+    const [folder, owner] = key.split('/');
+    const newKey = `${folder}/${owner}/${newName}`;
+    if (newKey === key) {
+      return c.json({ success: true, file: await formatStoredFile(c.env, (await c.env.FILE_STORAGE.head(key))!) });
+    }
+    
+    if (await c.env.FILE_STORAGE.head(newKey)) {
+      return c.json({ error: 'A file with that name already exists' }, 409);
+    }
+    
+    const object = await c.env.FILE_STORAGE.get(key);
+    if (!object) {
+      return c.json({ error: 'File not found' }, 404);
+    }
+    
+    // R2 has no rename; copy to the new key, then remove the old one
+    const renamed = await c.env.FILE_STORAGE.put(newKey, object.body, {
+      httpMetadata: object.httpMetadata,
+      customMetadata: object.customMetadata
+    });
+    await c.env.FILE_STORAGE.delete(key);
+    
+    return c.json({ success: true, file: await formatStoredFile(c.env, renamed!) });
+  } catch (error: any) {
+    return c.json({ error: error.message }, 500);
+  }
+});
+
+app.delete('/api/files/:key{.+}', requireAuth, async (c) => {
+  try {
+    const key = c.req.param('key');
+    
+    if (getFileOwner(key) !== c.var.user.id) {
+      return forbidden(c, 'File belongs to another user');
+    }
+    
+    if (!(await c.env.FILE_STORAGE.head(key))) {
+      return c.json({ error: 'File not found' }, 404);
+    }
+    
+    await c.env.FILE_STORAGE.delete(key);
+    return c.json({ success: true });
+  } catch (error: any) {
+    return c.json({ error: error.message }, 500);
+  }
+});
+
+app.get('/api/files/:key{.+}', async (c) => {
+  const key = c.req.param('key');
+  const object = await c.env.FILE_STORAGE.get(key);
+  
+  if (!object) {
+    return c.json({ error: 'File not found' }, 404);
+  }
+  
+  let cacheControl: string;
+  if (object.customMetadata?.visibility === 'public') {
+    cacheControl = 'public, max-age=31536000';
+  } else if (await verifyFileSignature(c.env, key, c.req.query('expires'), c.req.query('signature'))) {
+    // Shared caches must not keep a copy past the link's expiry
+    const remaining = parseInt(c.req.query('expires')!, 10) - Math.floor(Date.now() / 1000);
+    cacheControl = `private, max-age=${remaining}`;
+  } else if (!(await authenticate(c))) {
+    return unauthorized(c);
+  } else if (getFileOwner(key) !== c.var.user.id) {
+    return forbidden(c, 'File belongs to another user');
+  } else {
+    cacheControl = 'private, no-cache';
+  }
+  
+  return new Response(object.body, {
+    headers: {
+      'Content-Type': object.httpMetadata?.contentType || 'application/octet-stream',
+      'Cache-Control': cacheControl,
+      // Uploaded content is served from the app's origin; never let it run as a page
+      'Content-Security-Policy': 'sandbox',
+      'X-Content-Type-Options': 'nosniff'
+    }
+  });
+});
+
+// Creates a time-limited link to one of the caller's files
+app.post('/api/files/share', requireAuth, async (c) => {
+  try {
+    const { key, expiresIn = 60 * 60 } = await c.req.json();
+    
+    if (!key || getFileOwner(key) !== c.var.user.id) {
+      return forbidden(c, 'File belongs to another user');
+    }
+    
+    if (!(await c.env.FILE_STORAGE.head(key))) {
+      return c.json({ error: 'File not found' }, 404);
+    }
+    
+    const ttl = Math.min(Math.max(parseInt(expiresIn, 10) || 0, 60), FILE_SHARE_MAX_TTL_SECONDS);
+    
+    return c.json({
+      success: true,
+      url: await signFileUrl(c.env, key, ttl),
+      expiresAt: Math.floor(Date.now() / 1000) + ttl
+    });
+  } catch (error: any) {
+    return c.json({ error: error.message }, 500);
+  }
+});
+
+// Public files are served to anyone and cached by browsers and the CDN
+app.put('/api/files/visibility', requireAuth, async (c) => {
+  try {
+    const { key, public: isPublic } = await c.req.json();
+    
+    if (!key || getFileOwner(key) !== c.var.user.id) {
+      return forbidden(c, 'File belongs to another user');
+    }
+    
+    const object = await c.env.FILE_STORAGE.get(key);
+    if (!object) {
+      return c.json({ error: 'File not found' }, 404);
+    }
+    
+    // R2 metadata cannot be edited in place, so the object is rewritten
+    await c.env.FILE_STORAGE.put(key, object.body, {
+      httpMetadata: object.httpMetadata,
+      customMetadata: {
+        ...object.customMetadata,
+        visibility: isPublic ? 'public' : 'private'
+      }
+    });
+    
+    return c.json({
+      success: true,
+      public: Boolean(isPublic),
+      url: isPublic ? filePath(key) : await signFileUrl(c.env, key)
+    });
+  } catch (error: any) {
+    return c.json({ error: error.message }, 500);
+  }
+});
+
+app.post('/api/files/upload', requireAuth, async (c) => {
+  try {
+    const userId = c.var.user.id;
+    
+    const formData = await c.req.formData();
+    const files = (formData.getAll('file') as unknown[]).filter((entry): entry is File => entry instanceof File);
+    
+    if (files.length === 0) {
+      return c.json({ error: 'No file provided' }, 400);
+    }
+    
+    if (files.length > UPLOAD_MAX_FILES) {
+      throw new UploadError('max_files', `At most ${UPLOAD_MAX_FILES} files can be uploaded at once`);
+    }
+    
+    const validated = [];
+    for (const file of files) {
+      validated.push(await validateUpload(file));
+    }
+    
+    const totalSize = validated.reduce((sum, file) => sum + file.data.byteLength, 0);
+    const overQuota = await checkStorageQuota(c.env, userId, c.var.user.settings, totalSize);
+    if (overQuota) {
+      return c.json({ error: 'Storage quota exceeded', code: 'storage_quota', ...overQuota }, 413);
+    }
+    
+    const uploaded = [];
+    for (const { filename, data, contentType } of validated) {
+      const key = await putUniqueFile(c.env, 'uploads', userId, filename, data, {
+        httpMetadata: {
+          contentType
+        }
+      });
+      
+      c.env.ANALYTICS.writeDataPoint({
+        blobs: [userId, 'file_upload', filename],
+        doubles: [data.byteLength],
+        indexes: ['storage']
+      });
+      
+      uploaded.push({
+        url: await signFileUrl(c.env, key),
+        key,
+        name: filename,
+        size: data.byteLength,
+        contentType
+      });
+    }
+    
+    return c.json({
+      success: true,
+      ...uploaded[0],
+      files: uploaded
+    });
+  } catch (error: any) {
+    if (error instanceof UploadError) {
+      return c.json({ error: error.message, code: error.code }, error.status);
+    }
+    return c.json({ error: error.message }, 500);
+  }
+});
+
+// ==================== SESSION MANAGEMENT ====================
+// The session list only shows the start of the last message
+const SESSION_PREVIEW_CHARS = 200;
+
+app.get('/api/sessions', requireAuth, async (c) => {
+  try {
+    const archived = c.req.query('archived') === 'true' ? 1 : 0;
+    const { results } = await c.env.AI_CHAT_DB.prepare(`
+      SELECT id, title, model, pinned, archived, created_at, updated_at FROM chat_sessions
+      WHERE user_id = ? AND COALESCE(archived, 0) = ?
+      ORDER BY pinned DESC, updated_at DESC
+    `).bind(c.var.user.id, archived).all();
+    
+    const sessions = await Promise.all(
+      results.map(async (row) => {
+        const history = await c.env.CHAT_SESSIONS.get(`chat:${row.id}`, 'json') as StoredMessage[] | null || [];
+        const last = history[history.length - 1];
+        return {
+          id: row.id,
+          title: row.title,
+          model: row.model,
+          pinned: Boolean(row.pinned),
+          archived: Boolean(row.archived),
+          updatedAt: row.updated_at,
+          // Attachment content never goes back to clients
+          lastMessage: last && {
+            role: last.role,
+            content: last.content.slice(0, SESSION_PREVIEW_CHARS),
+            timestamp: last.timestamp
+          },
+          messageCount: history.length
+        };
+      })
+    );
+    
+    return c.json({ sessions });
+  } catch (error: any) {
+    return c.json({ error: error.message }, 500);
+  }
+});
+
+// Pages backwards from the newest message. `before` is the history index of
+// the oldest message the client already has.
+app.get('/api/sessions/:sessionId/messages', requireAuth, async (c) => {
+  try {
+    const sessionId = c.req.param('sessionId');
+    const owner = await getSessionOwner(c.env, sessionId);
+    
+    if (!owner) {
+      return c.json({ error: 'Session not found' }, 404);
+    }
+    
+    if (owner !== c.var.user.id) {
+      return forbidden(c, 'Session belongs to another user');
+    }
+    
+    const history = await c.env.CHAT_SESSIONS.get(`chat:${sessionId}`, 'json') as StoredMessage[] | null || [];
+    const limit = Math.min(Math.max(parseInt(c.req.query('limit') || '50', 10) || 50, 1), 200);
+    const before = c.req.query('before');
+    const end = before === undefined
+      ? history.length
+      : Math.min(Math.max(parseInt(before, 10) || 0, 0), history.length);
+    const start = Math.max(end - limit, 0);
+    
+    const messages = await Promise.all(history.slice(start, end).map(async (message, offset) => ({
+      id: `${sessionId}-${start + offset}`,
+      role: message.role,
+      content: message.content,
+      timestamp: message.timestamp,
+      tools: message.tools,
+      truncated: message.truncated,
+      usage: message.usage,
+      attachments: message.attachments && summarizeAttachments(message.attachments),
+      images: message.images && await summarizeImages(c.env, message.images)
+    })));
+    
+    // Session totals for the context meter, over the whole history rather than this page
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+    let costUSD = 0;
+    let context: ContextWindow | null = null;
+    for (const message of history) {
+      if (message.usage) {
+        usage.inputTokens += message.usage.inputTokens;
+        usage.outputTokens += message.usage.outputTokens;
+        usage.totalTokens += message.usage.totalTokens;
+        costUSD += message.costUSD || 0;
+        context = { usedTokens: message.contextTokens || 0, maxTokens: getContextTokens(message.model || '') };
+      }
+    }
+    
+    return c.json({
+      messages,
+      total: history.length,
+      hasMore: start > 0,
+      cursor: start > 0 ? start : null,
+      usage,
+      costUSD,
+      context
+    });
+  } catch (error: any) {
+    return c.json({ error: error.message }, 500);
+  }
+});
 
-// ==================== CHAT ROUTES ====================
-app.post('/api/chat', async (c) => {
+app.patch('/api/sessions/:sessionId', requireAuth, async (c) => {
   try {
-    const { message, sessionId, model = '@cf/meta/llama-3.1-8b-instruct', useTools = true } = await c.req.json();
-    const authHeader = c.req.header('Authorization');
+    const sessionId = c.req.param('sessionId');
+    const { title, pinned, archived } = await c.req.json();
+    const owner = await getSessionOwner(c.env, sessionId);
     
-    if (!authHeader) {
-      return c.json({ error: 'Unauthorized' }, 401);
+    if (!owner) {
+      return c.json({ error: 'Session not found' }, 404);
     }
     
-    const userId = await verifyToken(authHeader.replace('Bearer ', ''));
-    if (!userId) {
-      return c.json({ error: 'Invalid token' }, 401);
+    if (owner !== c.var.user.id) {
+      return forbidden(c, 'Session belongs to another user');
     }
     
-    // Track analytics
-    c.env.ANALYTICS.writeDataPoint({
-      blobs: [userId, sessionId, 'chat_request'],
-      doubles: [1],
-      indexes: [model]
-    });
+    const updates: string[] = [];
+    const values: (string | number)[] = [];
     
-    // Get chat history from KV
-    const historyKey = `chat:${sessionId}`;
-    const history = await c.env.CHAT_SESSIONS.get(historyKey, 'json') as any[] || [];
+    if (title !== undefined) {
+      const trimmed = String(title).trim().slice(0, 80);
+      if (!trimmed) {
+        return c.json({ error: 'Title cannot be empty' }, 400);
+      }
+      updates.push('title = ?');
+      values.push(trimmed);
+    }
+    if (pinned !== undefined) {
+      updates.push('pinned = ?');
+      values.push(pinned ? 1 : 0);
+    }
+    if (archived !== undefined) {
+      updates.push('archived = ?');
+      values.push(archived ? 1 : 0);
+    }
     
-    // Add user message
-    history.push({ role: 'user', content: message, timestamp: Date.now() });
+    if (updates.length === 0) {
+      return c.json({ error: 'Nothing to update' }, 400);
+    }
     
-    // Prepare messages with system prompt
-    const messages = [
-      { role: 'system', content: SYSTEM_PROMPT },
-      ...history.slice(-20) // Keep last 20 messages
-    ];
+    const session = await c.env.AI_CHAT_DB.prepare(`
+      UPDATE chat_sessions SET ${updates.join(', ')} WHERE id = ?
+      RETURNING id, title, model, pinned, archived, updated_at
+    `).bind(...values, sessionId).first();
     
-    let response;
+    return c.json({
+      success: true,
+      session: {
+        id: session?.id,
+        title: session?.title,
+        model: session?.model,
+        pinned: Boolean(session?.pinned),
+        archived: Boolean(session?.archived),
+        updatedAt: session?.updated_at
+      }
+    });
+  } catch (error: any) {
+    return c.json({ error: error.message }, 500);
+  }
+});
+
+app.delete('/api/sessions/:sessionId', requireAuth, async (c) => {
+  try {
+    const sessionId = c.req.param('sessionId');
+    const owner = await getSessionOwner(c.env, sessionId);
     
-    if (useTools) {
-      // Use AI with tools
-      const tools = createTools(c.env, userId);
-      response = await runWithTools(c.env.AI, model, {
-        messages,
-        tools
-      }, {
-        maxRecursiveToolRuns: 3,
-        streamFinalResponse: false
-      });
-    } else {
-      // Regular AI call
-      response = await c.env.AI.run(model, {
-        messages
-      });
+    if (!owner) {
+      return c.json({ error: 'Session not found' }, 404);
     }
     
-    const assistantMessage = typeof response === 'string' ? response : response.response;
-    history.push({ role: 'assistant', content: assistantMessage, timestamp: Date.now() });
+    if (owner !== c.var.user.id) {
+      return forbidden(c, 'Session belongs to another user');
+    }
     
-    // Store in KV (7 days TTL)
-    await c.env.CHAT_SESSIONS.put(historyKey, JSON.stringify(history), {
-      expirationTtl: 7 * 24 * 60 * 60
-    });
+    await c.env.CHAT_SESSIONS.delete(`chat:${sessionId}`);
+    await c.env.AI_CHAT_DB.prepare(
+      'DELETE FROM chat_sessions WHERE id = ?'
+    ).bind(sessionId).run();
+    
+    return c.json({ success: true });
+  } catch (error: any) {
+    return c.json({ error: error.message }, 500);
+  }
+});
+
+// ==================== WORKFLOW ROUTES ====================
+app.get('/api/workflows', requireAuth, async (c) => {
+  try {
+    await expireStaleWorkflows(c.env, c.var.user.id);
+    const { results } = await c.env.AI_CHAT_DB.prepare(`
+      SELECT * FROM workflow_executions
+      WHERE user_id = ?
+      ORDER BY started_at DESC
+      LIMIT 50
+    `).bind(c.var.user.id).all();
     
     return c.json({
-      response: assistantMessage,
-      model,
-      sessionId,
-      tokensUsed: assistantMessage.length / 4 // Rough estimate
+      executions: results.map(formatWorkflowExecution),
+      workflows: Object.entries(WORKFLOWS).map(([type, definition]) => ({
+        type,
+        description: definition.description,
+        steps: definition.steps.map(step => step.name)
+      }))
     });
   } catch (error: any) {
-    console.error('Chat error:', error);
     return c.json({ error: error.message }, 500);
   }
 });
 
-// ==================== STREAMING CHAT ====================
-app.post('/api/chat/stream', async (c) => {
-  const { message, sessionId, model = '@cf/meta/llama-3.1-8b-instruct' } = await c.req.json();
-  const authHeader = c.req.header('Authorization');
-  
-  if (!authHeader) {
-    return c.json({ error: 'Unauthorized' }, 401);
+app.post('/api/workflows', requireAuth, enforceQuota, async (c) => {
+  try {
+    const { type, input } = await c.req.json();
+    
+    if (!WORKFLOWS[type]) {
+      return c.json({ error: `Unknown workflow: ${type}` }, 400);
+    }
+    
+    const invalid = WORKFLOWS[type].validate(input || {});
+    if (invalid) {
+      return c.json({ error: invalid }, 400);
+    }
+    
+    const executionId = await startWorkflow(c.env, c.var.user.id, type, input);
+    return c.json({ success: true, executionId, status: 'pending' }, 202);
+  } catch (error: any) {
+    return c.json({ error: error.message }, 500);
   }
-  
-  const userId = await verifyToken(authHeader.replace('Bearer ', ''));
-  if (!userId) {
-    return c.json({ error: 'Invalid token' }, 401);
+});
+
+app.get('/api/workflows/:id', requireAuth, async (c) => {
+  try {
+    const execution = await getWorkflowExecution(c.env, c.var.user.id, c.req.param('id'));
+    if (!execution) {
+      return c.json({ error: 'Workflow execution not found' }, 404);
+    }
+    return c.json({ execution });
+  } catch (error: any) {
+    return c.json({ error: error.message }, 500);
   }
-  
-  return streamSSE(c, async (stream) => {
-    try {
-      const historyKey = `chat:${sessionId}`;
-      const history = await c.env.CHAT_SESSIONS.get(historyKey, 'json') as any[] || [];
-      history.push({ role: 'user', content: message, timestamp: Date.now() });
-      
-      const messages = [
-        { role: 'system', content: SYSTEM_PROMPT },
-        ...history.slice(-20)
-      ];
-      
-      const eventStream = await c.env.AI.run(model, {
-        messages,
-        stream: true
-      });
-      
-      let fullResponse = '';
-      
-      for await (const chunk of eventStream) {
-        if (chunk.response) {
-          fullResponse += chunk.response;
-          await stream.writeSSE({
-            data: JSON.stringify({ content: chunk.response, done: false })
-          });
-        }
+});
+
+app.post('/api/workflows/:id/cancel', requireAuth, async (c) => {
+  try {
+    const result = await c.env.AI_CHAT_DB.prepare(`
+      UPDATE workflow_executions SET status = 'cancelled', completed_at = ?
+      WHERE id = ? AND user_id = ? AND status IN ('pending', 'running')
+    `).bind(Date.now(), c.req.param('id'), c.var.user.id).run();
+    
+    if (result.meta.changes === 0) {
+      const execution = await getWorkflowExecution(c.env, c.var.user.id, c.req.param('id'));
+      if (!execution) {
+        return c.json({ error: 'Workflow execution not found' }, 404);
       }
-      
-      history.push({ role: 'assistant', content: fullResponse, timestamp: Date.now() });
-      await c.env.CHAT_SESSIONS.put(historyKey, JSON.stringify(history), {
-        expirationTtl: 7 * 24 * 60 * 60
-      });
-      
-      await stream.writeSSE({
-        data: JSON.stringify({ content: '', done: true })
-      });
-    } catch (error: any) {
-      await stream.writeSSE({
-        data: JSON.stringify({ error: error.message, done: true })
-      });
+      return c.json({ error: `Workflow already ${execution.status}` }, 409);
     }
-  });
+    
+    return c.json({ success: true, status: 'cancelled' });
+  } catch (error: any) {
+    return c.json({ error: error.message }, 500);
+  }
 });
 
-// ==================== VOICE AGENT ====================
-app.get('/api/voice/connect', async (c) => {
-  const authHeader = c.req.header('Authorization');
-  if (!authHeader) {
-    return c.json({ error: 'Unauthorized' }, 401);
-  }
-  
-  const userId = await verifyToken(authHeader.replace('Bearer ', ''));
-  if (!userId) {
-    return c.json({ error: 'Invalid token' }, 401);
-  }
-  
-  // Upgrade to WebSocket
-  const upgradeHeader = c.req.header('Upgrade');
-  if (upgradeHeader !== 'websocket') {
-    return c.json({ error: 'Expected WebSocket upgrade' }, 426);
-  }
-  
-  const { socket, response } = Durable.upgradeWebSocket(c.req.raw);
-  
-  // Connect to Deepgram Voice Agent
-  const deepgramWs = new WebSocket(
-    `wss://agent.deepgram.com/v1/agent/converse`,
-    {
-      headers: {
-        'Authorization': `Token ${c.env.DEEPGRAM_API_KEY}`
-      }
+// ==================== SNIPPET ROUTES ====================
+app.get('/api/snippets', optionalAuth, async (c) => {
+  try {
+    const scope = c.req.query('scope') === 'public' ? 'public' : 'mine';
+    const user = c.get('user');
+    
+    if (scope === 'mine' && !user) {
+      return unauthorized(c);
     }
-  );
-  
-  deepgramWs.addEventListener('open', () => {
-    deepgramWs.send(JSON.stringify({
-      type: 'Settings',
-      audio: {
-        input: { encoding: 'linear16', sample_rate: 16000 },
-        output: { encoding: 'linear16', sample_rate: 24000 }
-      },
-      agent: {
-        listen: { provider: { model: 'nova-3' } },
-        think: {
-          provider: { model: 'gpt-4o-mini' },
-          prompt: SYSTEM_PROMPT
-        },
-        speak: { provider: { model: 'aura-2-andromeda-en' } }
-      }
-    }));
-  });
-  
-  // Forward messages between client and Deepgram
-  socket.addEventListener('message', (event) => {
-    deepgramWs.send(event.data);
-  });
-  
-  deepgramWs.addEventListener('message', (event) => {
-    socket.send(event.data);
-  });
-  
-  socket.addEventListener('close', () => {
-    deepgramWs.close();
-  });
-  
-  return response;
+    
+    const snippets = await searchSnippets(c.env, user?.id || null, {
+      scope,
+      query: c.req.query('q'),
+      language: c.req.query('language'),
+      tag: c.req.query('tag'),
+      limit: parseInt(c.req.query('limit') || '', 10) || undefined,
+      offset: parseInt(c.req.query('offset') || '', 10) || undefined
+    });
+    
+    return c.json({ snippets });
+  } catch (error: any) {
+    return c.json({ error: error.message }, 500);
+  }
 });
 
-// ==================== FILE STORAGE ====================
-app.get('/api/files/:key{.+}', async (c) => {
-  const key = c.req.param('key');
-  const object = await c.env.FILE_STORAGE.get(key);
-  
-  if (!object) {
-    return c.json({ error: 'File not found' }, 404);
+app.post('/api/snippets', requireAuth, async (c) => {
+  try {
+    const snippet = await createSnippet(c.env, c.var.user.id, await c.req.json());
+    return c.json({ success: true, snippet }, 201);
+  } catch (error: any) {
+    return c.json({ error: error.message }, 400);
   }
-  
-  return new Response(object.body, {
-    headers: {
-      'Content-Type': object.httpMetadata?.contentType || 'application/octet-stream',
-      'Cache-Control': 'public, max-age=31536000'
+});
+
+// Public snippets can be shared by link without signing in
+app.get('/api/snippets/:id', optionalAuth, async (c) => {
+  try {
+    const row = await getSnippetRow(c.env, c.req.param('id'));
+    
+    if (!row || (!row.is_public && row.user_id !== c.get('user')?.id)) {
+      return c.json({ error: 'Snippet not found' }, 404);
     }
-  });
+    
+    return c.json({ snippet: formatSnippet(row) });
+  } catch (error: any) {
+    return c.json({ error: error.message }, 500);
+  }
 });
 
-app.post('/api/files/upload', async (c) => {
+app.patch('/api/snippets/:id', requireAuth, async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    if (!authHeader) {
-      return c.json({ error: 'Unauthorized' }, 401);
+    const id = c.req.param('id');
+    const input: SnippetInput = await c.req.json();
+    const existing = await c.env.AI_CHAT_DB.prepare(
+      'SELECT user_id FROM code_snippets WHERE id = ?'
+    ).bind(id).first();
+    
+    if (!existing) {
+      return c.json({ error: 'Snippet not found' }, 404);
     }
     
-    const userId = await verifyToken(authHeader.replace('Bearer ', ''));
-    if (!userId) {
-      return c.json({ error: 'Invalid token' }, 401);
+    if (existing.user_id !== c.var.user.id) {
+      return forbidden(c, 'Snippet belongs to another user');
     }
     
-    const formData = await c.req.formData();
-    const file = formData.get('file') as File;
+    const updates: string[] = [];
+    const values: (string | number | null)[] = [];
     
-    if (!file) {
-      return c.json({ error: 'No file provided' }, 400);
+    if (input.title !== undefined) {
+      if (!input.title.trim()) {
+        return c.json({ error: 'Title cannot be empty' }, 400);
+      }
+      updates.push('title = ?');
+      values.push(input.title.trim().slice(0, 200));
     }
-    
-    const key = `uploads/${userId}/${Date.now()}-${file.name}`;
-    await c.env.FILE_STORAGE.put(key, file.stream(), {
-      httpMetadata: {
-        contentType: file.type
+    if (input.description !== undefined) {
+      updates.push('description = ?');
+      values.push(input.description?.trim() || null);
+    }
+    if (input.code !== undefined) {
+      if (!input.code.trim()) {
+        return c.json({ error: 'Code cannot be empty' }, 400);
       }
-    });
+      updates.push('code = ?');
+      values.push(input.code);
+    }
+    if (input.language !== undefined) {
+      updates.push('language = ?');
+      values.push(input.language.trim().toLowerCase());
+    }
+    if (input.tags !== undefined) {
+      updates.push('tags = ?');
+      values.push(JSON.stringify(normalizeTags(input.tags)));
+    }
+    if (input.isPublic !== undefined) {
+      updates.push('is_public = ?');
+      values.push(input.isPublic ? 1 : 0);
+    }
     
-    c.env.ANALYTICS.writeDataPoint({
-      blobs: [userId, 'file_upload', file.name],
-      doubles: [file.size],
-      indexes: ['storage']
-    });
+    if (updates.length === 0) {
+      return c.json({ error: 'Nothing to update' }, 400);
+    }
     
-    return c.json({
-      success: true,
-      url: `/api/files/${key}`,
-      key,
-      size: file.size
-    });
+    await c.env.AI_CHAT_DB.prepare(`
+      UPDATE code_snippets SET ${updates.join(', ')}, updated_at = ? WHERE id = ?
+    `).bind(...values, Math.floor(Date.now() / 1000), id).run();
+    
+    return c.json({ success: true, snippet: formatSnippet((await getSnippetRow(c.env, id))!) });
   } catch (error: any) {
     return c.json({ error: error.message }, 500);
   }
 });
 
-// ==================== SESSION MANAGEMENT ====================
-app.get('/api/sessions', async (c) => {
+app.delete('/api/snippets/:id', requireAuth, async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    if (!authHeader) {
-      return c.json({ error: 'Unauthorized' }, 401);
-    }
+    const result = await c.env.AI_CHAT_DB.prepare(
+      'DELETE FROM code_snippets WHERE id = ? AND user_id = ?'
+    ).bind(c.req.param('id'), c.var.user.id).run();
     
-    const userId = await verifyToken(authHeader.replace('Bearer ', ''));
-    if (!userId) {
-      return c.json({ error: 'Invalid token' }, 401);
+    if (result.meta.changes === 0) {
+      return c.json({ error: 'Snippet not found' }, 404);
     }
     
-    const list = await c.env.CHAT_SESSIONS.list({ prefix: `chat:` });
-    const sessions = await Promise.all(
-      list.keys.map(async (key) => {
-        const history = await c.env.CHAT_SESSIONS.get(key.name, 'json') as any[];
-        return {
-          id: key.name.replace('chat:', ''),
-          lastMessage: history[history.length - 1],
-          messageCount: history.length
-        };
-      })
-    );
-    
-    return c.json({ sessions });
+    return c.json({ success: true });
+  } catch (error: any) {
+    return c.json({ error: error.message }, 500);
+  }
+});
+
+// ==================== USER SETTINGS ====================
+// Settings users may change themselves. Everything else in users.settings,
+// notably `plan` and `limits`, is managed outside the app and never written here.
+const EDITABLE_SETTINGS: Record<string, (value: unknown) => boolean> = {
+  theme: value => value === 'light' || value === 'dark',
+  model: value => typeof value === 'string' && value.length > 0 && value.length <= 100,
+  voiceProvider: value => VOICE_PROVIDERS.includes(value as VoiceProvider)
+};
+
+function formatUserSettings(env: Env, settings: AuthUser['settings']) {
+  return {
+    settings: Object.fromEntries(
+      Object.keys(EDITABLE_SETTINGS)
+        .filter(key => settings[key] !== undefined)
+        .map(key => [key, settings[key]])
+    ),
+    voice: {
+      provider: getVoiceProvider(env, settings),
+      providers: getVoiceProviders(env)
+    }
+  };
+}
+
+app.get('/api/settings', requireAuth, async (c) => {
+  try {
+    return c.json(formatUserSettings(c.env, c.var.user.settings));
   } catch (error: any) {
     return c.json({ error: error.message }, 500);
   }
 });
 
-app.delete('/api/sessions/:sessionId', async (c) => {
+app.patch('/api/settings', requireAuth, async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    if (!authHeader) {
-      return c.json({ error: 'Unauthorized' }, 401);
+    const updates = await c.req.json();
+    
+    if (!updates || typeof updates !== 'object' || Array.isArray(updates)) {
+      return c.json({ error: 'Expected an object of settings' }, 400);
+    }
+    
+    for (const [key, value] of Object.entries(updates)) {
+      if (!EDITABLE_SETTINGS[key]) {
+        return c.json({ error: `${key} cannot be changed`, code: 'invalid_setting' }, 400);
+      }
+      if (!EDITABLE_SETTINGS[key](value)) {
+        return c.json({ error: `Invalid value for ${key}`, code: 'invalid_setting' }, 400);
+      }
     }
     
-    const userId = await verifyToken(authHeader.replace('Bearer ', ''));
-    if (!userId) {
-      return c.json({ error: 'Invalid token' }, 401);
+    if (updates.voiceProvider && !getVoiceProviders(c.env).includes(updates.voiceProvider)) {
+      return c.json({ error: `${updates.voiceProvider} voice is not available`, code: 'invalid_setting' }, 400);
     }
     
-    const sessionId = c.req.param('sessionId');
-    await c.env.CHAT_SESSIONS.delete(`chat:${sessionId}`);
+    // Merge into the stored settings rather than the copy loaded with the token
+    const settings = { ...await loadUserSettings(c.env, c.var.user.id), ...updates };
+    await c.env.AI_CHAT_DB.prepare(
+      'UPDATE users SET settings = ?, updated_at = ? WHERE id = ?'
+    ).bind(JSON.stringify(settings), Math.floor(Date.now() / 1000), c.var.user.id).run();
     
-    return c.json({ success: true });
+    return c.json(formatUserSettings(c.env, settings));
   } catch (error: any) {
     return c.json({ error: error.message }, 500);
   }
 });
 
-// ==================== ANALYTICS ====================
-app.get('/api/analytics', async (c) => {
+// ==================== USAGE LIMITS ====================
+app.get('/api/usage/limits', requireAuth, async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    if (!authHeader) {
-      return c.json({ error: 'Unauthorized' }, 401);
-    }
+    const userId = c.var.user.id;
+    const limits = getUserLimits(c.var.user.settings);
     
-    const userId = await verifyToken(authHeader.replace('Bearer ', ''));
-    if (!userId) {
-      return c.json({ error: 'Invalid token' }, 401);
+    const usage: Record<string, { used: number; limit: number; resetAt?: number }> = {};
+    for (const metric of Object.keys(QUOTA_LIMIT_KEYS) as QuotaMetric[]) {
+      const key = QUOTA_LIMIT_KEYS[metric];
+      usage[key] = {
+        used: await getQuotaUsage(c.env, userId, metric),
+        limit: limits[key],
+        resetAt: quotaWindow(metric).resetAt
+      };
     }
+    usage.storageBytes = {
+      used: await getStorageUsage(c.env, userId),
+      limit: limits.storageBytes
+    };
     
-    // Query analytics (this is a placeholder - actual implementation depends on your setup)
     return c.json({
-      totalRequests: 0,
-      toolUsage: {},
-      modelUsage: {}
+      plan: getUserPlan(c.var.user.settings),
+      usage
     });
   } catch (error: any) {
     return c.json({ error: error.message }, 500);
   }
 });
 
+// ==================== ANALYTICS ====================
+// ?from= and ?to= accept epoch milliseconds or ISO dates; ?days= sets the window when from is omitted
+app.get('/api/analytics', requireAuth, async (c) => {
+  try {
+    const range = parseAnalyticsRange(c.req.query('from'), c.req.query('to'), c.req.query('days'));
+    
+    if (!range) {
+      return c.json({ error: `Invalid range (at most ${ANALYTICS_MAX_DAYS} days)` }, 400);
+    }
+    
+    return c.json(await getUsageAnalytics(c.env, c.var.user.id, range.from, range.to));
+  } catch (error: any) {
+    return c.json({ error: error.message }, 500);
+  }
+});
+
 // ==================== HEALTH CHECK ====================
 app.get('/api/health', (c) => {
   return c.json({
@@ -891,3 +4460,39 @@ export class ChatDurableObject {
     }
   }
 }
+
+// Runs one workflow execution. The run is kept in storage and executed from an
+// alarm: alarms aren't cut off after the response like waitUntil, and a failed
+// or evicted alarm is retried, resuming after the last completed step.
+export class WorkflowDurableObject {
+  state: DurableObjectState;
+  env: Env;
+  
+  constructor(state: DurableObjectState, env: Env) {
+    this.state = state;
+    this.env = env;
+  }
+  
+  async fetch(request: Request) {
+    const url = new URL(request.url);
+    
+    if (url.pathname === '/start' && request.method === 'POST') {
+      const run = await request.json() as WorkflowRun;
+      await this.state.storage.put('run', run);
+      await this.state.storage.setAlarm(Date.now());
+      return new Response(null, { status: 202 });
+    }
+    
+    return new Response('Not found', { status: 404 });
+  }
+  
+  async alarm() {
+    const run = await this.state.storage.get<WorkflowRun>('run');
+    if (!run) {
+      return;
+    }
+    
+    await runWorkflow(this.env, run);
+    await this.state.storage.deleteAll();
+  }
+}
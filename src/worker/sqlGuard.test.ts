@@ -0,0 +1,144 @@
+// src/worker/sqlGuard.test.ts
+import { describe, expect, it } from 'vitest';
+import { guardSqlQuery } from './sqlGuard';
+
+const USER_ID = 'user-1';
+
+// Every table the rewritten query reads must be the caller-scoped subquery
+function expectScoped(sql: string) {
+  const reads = [...sql.matchAll(/\b(?:FROM|JOIN)\s+(?!\()("?\w+"?)(\s+WHERE\s+\w+\s*=\s*'([^']*)')?/gi)];
+  expect(reads.length).toBeGreaterThan(0);
+  for (const [read, , scope, owner] of reads) {
+    expect(scope, `unscoped read: ${read}`).toBeDefined();
+    expect(owner).toBe(USER_ID);
+  }
+}
+
+function accept(sql: string) {
+  const result = guardSqlQuery(sql, USER_ID);
+  if (!result.ok) {
+    throw new Error(`Expected ${sql} to be accepted, got: ${result.reason}`);
+  }
+  expectScoped(result.sql);
+  return result;
+}
+
+function reject(sql: string) {
+  const result = guardSqlQuery(sql, USER_ID);
+  expect(result.ok, `Expected ${sql} to be rejected`).toBe(false);
+  return result as Extract<typeof result, { ok: false }>;
+}
+
+describe('guardSqlQuery', () => {
+  it('scopes plain table reads to the caller', () => {
+    const result = accept('SELECT title FROM chat_sessions WHERE pinned = 1');
+    expect(result.tables).toEqual(['chat_sessions']);
+    expect(result.sql).toMatch(/LIMIT 100$/);
+  });
+
+  it('keeps aliases on scoped tables', () => {
+    const result = accept('SELECT s.title FROM chat_sessions s JOIN usage_logs AS u ON u.resource = s.id');
+    expect(result.tables).toEqual(['chat_sessions', 'usage_logs']);
+    expect(result.sql).toContain('AS "s"');
+    expect(result.sql).toContain('AS "u"');
+  });
+
+  it('scopes tables in subqueries', () => {
+    const result = accept('SELECT * FROM (SELECT title FROM code_snippets) WHERE title IN (SELECT title FROM chat_sessions)');
+    expect(result.tables).toEqual(['code_snippets', 'chat_sessions']);
+  });
+
+  describe('parenthesized tables', () => {
+    it('scopes FROM (table)', () => {
+      expect(accept('SELECT * FROM (users)').tables).toEqual(['users']);
+    });
+
+    it('scopes a parenthesized table after a comma', () => {
+      expect(accept('SELECT * FROM chat_sessions, (users)').tables).toEqual(['chat_sessions', 'users']);
+    });
+
+    it('scopes JOIN (table)', () => {
+      expect(accept('SELECT * FROM users JOIN (chat_sessions) ON 1 = 1').tables).toEqual(['users', 'chat_sessions']);
+    });
+
+    it('scopes nested parentheses and parenthesized joins', () => {
+      expect(accept('SELECT * FROM ((users))').tables).toEqual(['users']);
+      expect(accept('SELECT * FROM (users JOIN chat_sessions ON 1 = 1)').tables).toEqual(['users', 'chat_sessions']);
+    });
+
+    it('rejects blocked tables in parentheses', () => {
+      expect(reject('SELECT * FROM (api_keys)').reason).toMatch(/api_keys is not accessible/);
+      expect(reject('SELECT * FROM users, (api_keys)').reason).toMatch(/api_keys is not accessible/);
+      expect(reject('SELECT * FROM users JOIN (sqlite_master)').reason).toMatch(/sqlite_master/);
+    });
+  });
+
+  describe('tables after a join constraint', () => {
+    it('scopes a table listed after ON', () => {
+      const result = accept('SELECT * FROM chat_sessions c JOIN chat_sessions d ON 1 = 1, users');
+      expect(result.tables).toEqual(['chat_sessions', 'users']);
+      expect(result.sql).not.toMatch(/,\s*users\b/);
+    });
+
+    it('scopes a table listed after USING', () => {
+      const result = accept('SELECT * FROM chat_sessions c JOIN usage_logs d USING (id), users u');
+      expect(result.tables).toEqual(['chat_sessions', 'usage_logs', 'users']);
+      expect(result.sql).not.toMatch(/,\s*users\b/);
+      expect(result.sql).toContain('AS "u"');
+    });
+
+    it('rejects blocked tables listed after ON or USING', () => {
+      expect(reject('SELECT * FROM chat_sessions c JOIN chat_sessions d ON 1 = 1, api_keys').reason).toMatch(/api_keys is not accessible/);
+      expect(reject('SELECT * FROM chat_sessions c JOIN chat_sessions d USING (id), api_keys').reason).toMatch(/api_keys is not accessible/);
+      expect(reject('SELECT * FROM users JOIN chat_sessions ON 1 = 1, (sqlite_master)').reason).toMatch(/sqlite_master/);
+    });
+  });
+
+  it('rejects IN followed by a bare table name', () => {
+    expect(reject('SELECT * FROM users WHERE id IN chat_sessions').reason).toMatch(/IN must be followed/);
+    accept('SELECT * FROM users WHERE id IN (SELECT user_id FROM chat_sessions)');
+  });
+
+  describe('quoted names', () => {
+    it('scopes quoted allowed tables', () => {
+      expect(accept('SELECT * FROM "users"').tables).toEqual(['users']);
+      expect(accept('SELECT * FROM `chat_sessions` JOIN [usage_logs] ON 1 = 1').tables).toEqual(['chat_sessions', 'usage_logs']);
+      expect(accept('SELECT * FROM ("USERS")').tables).toEqual(['users']);
+    });
+
+    it('rejects quoted blocked tables and columns', () => {
+      expect(reject('SELECT * FROM "api_keys"').reason).toMatch(/api_keys is not accessible/);
+      expect(reject('SELECT "password" FROM users').reason).toMatch(/password is not accessible/);
+      expect(reject('SELECT [key_hash] FROM users').reason).toMatch(/key_hash is not accessible/);
+    });
+  });
+
+  it('rejects qualified table names', () => {
+    expect(reject('SELECT * FROM main.users').reason).toMatch(/Qualified table names/);
+    expect(reject('SELECT * FROM "main"."users"').reason).toMatch(/Qualified table names/);
+    expect(reject('SELECT * FROM (main.users)').reason).toMatch(/Qualified table names/);
+    expect(reject('SELECT * FROM users JOIN temp.chat_sessions ON 1 = 1').reason).toMatch(/Qualified table names/);
+  });
+
+  it('rejects table-valued functions', () => {
+    expect(reject("SELECT * FROM pragma_table_info('users')").ok).toBe(false);
+    expect(reject("SELECT * FROM json_each('[1]')").reason).toMatch(/table functions/);
+  });
+
+  it('rejects CTEs', () => {
+    expect(reject('WITH u AS (SELECT * FROM users) SELECT * FROM u').reason).toMatch(/Only SELECT/);
+    expect(reject('SELECT * FROM (WITH u AS (SELECT 1) SELECT * FROM u)').reason).toMatch(/WITH is not allowed/);
+    expect(reject('SELECT * FROM (WITH RECURSIVE u AS (SELECT 1) SELECT * FROM u)').ok).toBe(false);
+  });
+
+  it('rejects writes and multiple statements', () => {
+    expect(reject('DELETE FROM users').reason).toMatch(/Only SELECT/);
+    expect(reject('SELECT 1; DROP TABLE users').reason).toMatch(/Multiple statements/);
+    expect(reject('SELECT * FROM users WHERE id IN (DELETE FROM users)').reason).toMatch(/DELETE is not allowed/);
+  });
+
+  it('escapes the caller id in the scope', () => {
+    const result = guardSqlQuery('SELECT * FROM users', "x' OR '1'='1");
+    expect(result.ok && result.sql).toContain("WHERE id = 'x'' OR ''1''=''1'");
+  });
+});
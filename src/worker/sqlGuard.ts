@@ -0,0 +1,269 @@
+// src/worker/sqlGuard.ts
+// query_database runs model-written SQL, so queries are tokenized and rebuilt:
+// only a single SELECT is allowed, every table reference is swapped for a
+// subquery exposing the permitted columns of the caller's own rows, and the
+// whole thing is wrapped in a row limit.
+export const SQL_MAX_ROWS = 100;
+const SQL_MAX_LENGTH = 4000;
+
+export const SQL_TABLES: Record<string, { owner: string; columns: string[] }> = {
+  users: {
+    owner: 'id',
+    columns: ['id', 'email', 'name', 'created_at', 'updated_at', 'settings', 'avatar_url', 'last_login']
+  },
+  chat_sessions: {
+    owner: 'user_id',
+    columns: ['id', 'user_id', 'title', 'created_at', 'updated_at', 'model', 'message_count', 'pinned', 'archived']
+  },
+  code_snippets: {
+    owner: 'user_id',
+    columns: ['id', 'user_id', 'title', 'description', 'code', 'language', 'tags', 'created_at', 'updated_at', 'is_public']
+  },
+  workflow_executions: {
+    owner: 'user_id',
+    columns: ['id', 'user_id', 'workflow_type', 'status', 'input', 'output', 'error', 'started_at', 'completed_at']
+  },
+  usage_logs: {
+    owner: 'user_id',
+    columns: ['id', 'user_id', 'action', 'resource', 'tokens_used', 'cost', 'timestamp', 'metadata']
+  }
+};
+
+const SQL_BLOCKED_COLUMNS = ['password', 'key_hash', 'github_id'];
+
+const SQL_BLOCKED_KEYWORDS = [
+  'insert', 'update', 'delete', 'drop', 'alter', 'create', 'upsert',
+  'attach', 'detach', 'pragma', 'vacuum', 'reindex', 'analyze', 'trigger',
+  'begin', 'commit', 'rollback', 'savepoint', 'release', 'with', 'recursive'
+];
+
+const SQL_BLOCKED_FUNCTIONS = ['load_extension', 'randomblob', 'zeroblob', 'readfile', 'writefile'];
+
+// Keywords that end a FROM list at the current nesting level
+// (ON and USING don't: a comma after a join constraint starts another table)
+const SQL_FROM_TERMINATORS = ['where', 'group', 'order', 'limit', 'having', 'union', 'intersect', 'except', 'window'];
+
+// Words that can follow a table name without being its alias
+const SQL_NON_ALIAS_WORDS = [...SQL_FROM_TERMINATORS, 'on', 'using', 'join', 'left', 'right', 'inner', 'outer', 'cross', 'natural', 'full', 'indexed', 'not'];
+
+type SqlToken = {
+  type: 'word' | 'quoted' | 'string' | 'number' | 'param' | 'punct';
+  value: string;
+};
+
+export type SqlGuardResult =
+  | { ok: true; sql: string; tables: string[] }
+  | { ok: false; reason: string; hint: string };
+
+class SqlGuardError extends Error {
+  hint: string;
+  
+  constructor(reason: string, hint: string) {
+    super(reason);
+    this.hint = hint;
+  }
+}
+
+function tokenizeSql(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let i = 0;
+  
+  while (i < sql.length) {
+    const char = sql[i];
+    
+    if (/\s/.test(char)) {
+      i++;
+    } else if (sql.startsWith('--', i)) {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end + 1;
+    } else if (sql.startsWith('/*', i)) {
+      const end = sql.indexOf('*/', i + 2);
+      if (end === -1) {
+        throw new SqlGuardError('Unterminated block comment', 'Remove the comment or close it with */.');
+      }
+      i = end + 2;
+    } else if (char === "'") {
+      let j = i + 1;
+      while (j < sql.length && !(sql[j] === "'" && sql[j + 1] !== "'")) {
+        j += sql[j] === "'" ? 2 : 1;
+      }
+      if (j >= sql.length) {
+        throw new SqlGuardError('Unterminated string literal', "Close the string with a single quote; escape quotes as ''.");
+      }
+      tokens.push({ type: 'string', value: sql.slice(i, j + 1) });
+      i = j + 1;
+    } else if (char === '"' || char === '`' || char === '[') {
+      const close = char === '[' ? ']' : char;
+      const end = sql.indexOf(close, i + 1);
+      if (end === -1) {
+        throw new SqlGuardError('Unterminated quoted identifier', `Close the identifier with ${close}.`);
+      }
+      tokens.push({ type: 'quoted', value: sql.slice(i + 1, end).toLowerCase() });
+      i = end + 1;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_$]*/.exec(sql.slice(i))![0];
+      tokens.push({ type: 'word', value: match.toLowerCase() });
+      i += match.length;
+    } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(sql[i + 1] || ''))) {
+      const match = /^(0x[0-9a-f]+|[0-9]*\.?[0-9]+(e[+-]?[0-9]+)?)/i.exec(sql.slice(i))![0];
+      tokens.push({ type: 'number', value: match });
+      i += match.length;
+    } else if (char === '?') {
+      const match = /^\?[0-9]*/.exec(sql.slice(i))![0];
+      tokens.push({ type: 'param', value: match });
+      i += match.length;
+    } else if (char === ':' || char === '@' || char === '$') {
+      throw new SqlGuardError('Named parameters are not supported', 'Use ? placeholders and pass values in params.');
+    } else {
+      const two = sql.slice(i, i + 2);
+      const op = ['<=', '>=', '<>', '!=', '==', '||', '<<', '>>'].includes(two) ? two : char;
+      tokens.push({ type: 'punct', value: op });
+      i += op.length;
+    }
+  }
+  
+  return tokens;
+}
+
+function scopedTableSql(table: string, userId: string): string {
+  const { owner, columns } = SQL_TABLES[table];
+  const escapedUserId = userId.replace(/'/g, "''");
+  return `(SELECT ${columns.join(', ')} FROM ${table} WHERE ${owner} = '${escapedUserId}')`;
+}
+
+export function guardSqlQuery(sql: string, userId: string): SqlGuardResult {
+  const allowedTables = Object.keys(SQL_TABLES).join(', ');
+  
+  try {
+    if (sql.length > SQL_MAX_LENGTH) {
+      throw new SqlGuardError(`Query is longer than ${SQL_MAX_LENGTH} characters`, 'Write a shorter query.');
+    }
+    
+    const tokens = tokenizeSql(sql);
+    while (tokens.length > 0 && tokens[tokens.length - 1].value === ';') {
+      tokens.pop();
+    }
+    
+    if (tokens.length === 0 || tokens[0].type !== 'word' || tokens[0].value !== 'select') {
+      throw new SqlGuardError('Only SELECT statements are allowed', 'Start the query with SELECT. Data cannot be modified.');
+    }
+    
+    if (tokens.some(token => token.value === ';')) {
+      throw new SqlGuardError('Multiple statements are not allowed', 'Send a single SELECT statement without semicolons.');
+    }
+    
+    const output: string[] = [];
+    const tables = new Set<string>();
+    // One entry per parenthesis depth: are we inside a FROM list at that level?
+    const inFrom: boolean[] = [false];
+    let expectTable = false;
+    
+    for (let index = 0; index < tokens.length; index++) {
+      const token = tokens[index];
+      const next = tokens[index + 1];
+      const isIdentifier = token.type === 'word' || token.type === 'quoted';
+      
+      if (token.type === 'word' && SQL_BLOCKED_KEYWORDS.includes(token.value)) {
+        throw new SqlGuardError(
+          `Keyword ${token.value.toUpperCase()} is not allowed`,
+          'Only plain SELECT queries (joins and subqueries are fine, CTEs are not) can be run.'
+        );
+      }
+      
+      if (isIdentifier && SQL_BLOCKED_COLUMNS.includes(token.value)) {
+        throw new SqlGuardError(`Column ${token.value} is not accessible`, 'Remove it from the query; credentials are never readable.');
+      }
+      
+      if (token.type === 'word' && next?.value === '(' && SQL_BLOCKED_FUNCTIONS.includes(token.value)) {
+        throw new SqlGuardError(`Function ${token.value}() is not allowed`, 'Use standard SQL functions only.');
+      }
+      
+      if (isIdentifier && (token.value.startsWith('sqlite_') || token.value.startsWith('pragma_') || token.value.startsWith('_cf_'))) {
+        throw new SqlGuardError(`${token.value} is not accessible`, `Query one of: ${allowedTables}.`);
+      }
+      
+      if (expectTable) {
+        expectTable = false;
+        
+        if (token.value === '(') {
+          output.push('(');
+          if (next?.type === 'word' && next.value === 'select') {
+            // Subquery in FROM; its own tables are checked as we go
+            inFrom.push(false);
+          } else {
+            // Parenthesized table or join, e.g. FROM (users): still a table position
+            inFrom.push(true);
+            expectTable = true;
+          }
+          continue;
+        }
+        
+        if (!isIdentifier) {
+          throw new SqlGuardError('Expected a table name after FROM/JOIN', `Query one of: ${allowedTables}.`);
+        }
+        
+        if (next?.value === '.' || next?.value === '(') {
+          throw new SqlGuardError(`Qualified table names and table functions are not allowed (${token.value})`, `Query one of: ${allowedTables}.`);
+        }
+        
+        if (!SQL_TABLES[token.value]) {
+          throw new SqlGuardError(`Table ${token.value} is not accessible`, `Query one of: ${allowedTables}.`);
+        }
+        
+        tables.add(token.value);
+        
+        // Keep the caller's alias, or alias the subquery back to the table name
+        let alias = token.value;
+        if (next?.type === 'word' && next.value === 'as' && tokens[index + 2]) {
+          alias = tokens[index + 2].value;
+          index += 2;
+        } else if ((next?.type === 'word' || next?.type === 'quoted') && !SQL_NON_ALIAS_WORDS.includes(next.value)) {
+          alias = next.value;
+          index++;
+        }
+        
+        output.push(`${scopedTableSql(token.value, userId)} AS "${alias.replace(/"/g, '""')}"`);
+        continue;
+      }
+      
+      if (token.type === 'word' && (token.value === 'from' || token.value === 'join')) {
+        inFrom[inFrom.length - 1] = true;
+        expectTable = true;
+      } else if (token.type === 'word' && token.value === 'in' && next && next.value !== '(') {
+        // SQLite accepts `x IN table`, which would read the table unscoped
+        throw new SqlGuardError('IN must be followed by a parenthesized list or subquery', 'Write IN (SELECT column FROM table) instead.');
+      } else if (token.value === ',' && inFrom[inFrom.length - 1]) {
+        expectTable = true;
+      } else if (token.type === 'word' && SQL_FROM_TERMINATORS.includes(token.value)) {
+        inFrom[inFrom.length - 1] = false;
+      } else if (token.value === '(') {
+        inFrom.push(false);
+      } else if (token.value === ')') {
+        inFrom.pop();
+        if (inFrom.length === 0) {
+          throw new SqlGuardError('Unbalanced parentheses', 'Check that every ( has a matching ).');
+        }
+      }
+      
+      output.push(token.type === 'quoted' ? `"${token.value.replace(/"/g, '""')}"` : token.value);
+    }
+    
+    if (expectTable) {
+      throw new SqlGuardError('Expected a table name after FROM/JOIN', `Query one of: ${allowedTables}.`);
+    }
+    if (inFrom.length !== 1) {
+      throw new SqlGuardError('Unbalanced parentheses', 'Check that every ( has a matching ).');
+    }
+    
+    return {
+      ok: true,
+      sql: `SELECT * FROM (${output.join(' ')}) LIMIT ${SQL_MAX_ROWS}`,
+      tables: [...tables]
+    };
+  } catch (error) {
+    if (error instanceof SqlGuardError) {
+      return { ok: false, reason: error.message, hint: error.hint };
+    }
+    throw error;
+  }
+}
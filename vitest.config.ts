@@ -0,0 +1,8 @@
+import { defineConfig } from "vitest/config"
+
+// Unit tests run in Node; the Cloudflare and React plugins from vite.config.ts aren't needed
+export default defineConfig({
+  test: {
+    include: ["src/**/*.test.ts"],
+  },
+})